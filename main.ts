@@ -1,27 +1,145 @@
-import { App, Plugin, PluginSettingTab, Setting, TFile, Notice, Modal } from 'obsidian';
+import { App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, Events, FuzzySuggestModal, ItemView, MarkdownRenderChild, Modal, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, Notice, ViewStateResult, WorkspaceLeaf, debounce, moment, normalizePath, parseYaml } from 'obsidian';
+
+const VIEW_TYPE_HEALTH_DASHBOARD = 'health-log-dashboard';
+const VIEW_TYPE_HEALTH_REVIEW = 'health-log-review';
+
+const CACHE_VERSION = '3.0.0';
+// Parser recorded on entries migrated from 2.x; never equal to a current signature
+const LEGACY_PARSER_SIGNATURE = 'legacy:2.0.0';
+// Bump when the LLM prompt or rule-based parser changes so cached parses are redone
+const PROMPT_VERSION = 4;
+const RULE_PARSER_VERSION = 6;
+
+const EXPORT_FILE_NAMES: Record<ExportFormat, string> = {
+	markdown: 'Health log report.md',
+	csv: 'health-log-associations.csv',
+	json: 'health-log-associations.json'
+};
+
+type DateSource = 'filename-regex' | 'filename-format' | 'frontmatter';
+
+type HealthLogSource = 'heading' | 'callout' | 'frontmatter';
+
+type LLMProviderId = 'ollama-generate' | 'ollama-chat' | 'openai-compatible';
+
+export type AssociationSortKey = 'count' | 'lift' | 'relativeRisk' | 'pValue' | 'severity' | 'adjusted';
 
 interface HealthLogSettings {
 	dailyNoteTag: string;
 	useDateRegex: boolean;
 	dateRegexPattern: string;
-	healthLogHeading: string;
-	// Ollama settings
-	useOllama: boolean;
+	dateSource: DateSource;
+	dateFormat: string; // moment.js format for the note name, e.g. "dddd YYYY-MM-DD"
+	frontmatterDateField: string;
+	analysisStartDate: string; // YYYY-MM-DD, empty for no lower bound
+	analysisEndDate: string; // YYYY-MM-DD, empty for no upper bound
+	healthLogSource: HealthLogSource;
+	healthLogHeadings: string; // One per line; /pattern/ entries are matched as regular expressions
+	healthLogCalloutTypes: string; // Comma-separated callout types, e.g. "health"
+	healthLogFrontmatterField: string;
+	// LLM settings
+	useLLM: boolean;
+	llmProvider: LLMProviderId;
 	ollamaHost: string;
 	ollamaModel: string;
+	ollamaTimeoutSeconds: number;
+	ollamaChatHost: string;
+	ollamaChatModel: string;
+	ollamaChatTimeoutSeconds: number;
+	openAIBaseUrl: string;
+	openAIModel: string;
+	openAIApiKey: string;
+	openAITimeoutSeconds: number;
+	llmMaxRetries: number;
+	parseConcurrency: number;
+	llmRequestsPerMinute: number; // 0 = unlimited
+	cacheCheckpointInterval: number; // Save the cache after this many newly parsed notes
+	backgroundIndexing: boolean;
+	// Association scoring
+	minSupport: number;
+	maxPValue: number;
+	associationSort: AssociationSortKey;
+	lagWindowMinHours: number;
+	lagWindowMaxHours: number;
+	shortSleepHours: number; // Nights shorter than this count as a "short sleep" exposure
+	highLevelThreshold: number; // 0-10 level from which stress and similar scales count as "high"
+	lowHydrationLiters: number; // Days with less logged fluid count as "low hydration"
+	multivariableAnalysis: boolean; // Fit a per-symptom model that controls for co-occurring triggers
+	// Normalization
+	aliasTable: string; // One "alias = canonical" mapping per line
+	splitCompoundFoods: boolean;
+	editorSuggestions: boolean; // Autocomplete known items while typing in the Health log section
+	// Export
+	exportFolder: string;
+	experiments: EliminationExperiment[];
+	// Periodic summaries; note names and folders from the Periodic Notes plugin take precedence
+	weeklyNoteFormat: string; // moment.js format, e.g. "gggg-[W]ww"
+	monthlyNoteFormat: string;
+	periodicNotesFolder: string;
+	summaryHeading: string; // Section of the periodic note the summary replaces on each run
+	summaryTemplate: string; // Note with {{placeholders}} for the summary section, empty for the default layout
+	scheduleWeeklySummary: boolean; // On startup, summarize the last full week once
+	scheduleMonthlySummary: boolean;
+	lastWeeklySummary: string; // Start date of the last period summarized on schedule
+	lastMonthlySummary: string;
 }
 
 const DEFAULT_SETTINGS: HealthLogSettings = {
 	dailyNoteTag: '#daily',
 	useDateRegex: true,
 	dateRegexPattern: '\\d{4}-\\d{2}-\\d{2}',
-	healthLogHeading: 'Health log',
-	useOllama: true,
+	dateSource: 'filename-regex',
+	dateFormat: '',
+	frontmatterDateField: 'date',
+	analysisStartDate: '',
+	analysisEndDate: '',
+	healthLogSource: 'heading',
+	healthLogHeadings: 'Health log',
+	healthLogCalloutTypes: 'health',
+	healthLogFrontmatterField: 'health',
+	useLLM: true,
+	llmProvider: 'ollama-generate',
 	ollamaHost: 'http://localhost:11434',
-	ollamaModel: 'llama3.2'
+	ollamaModel: 'llama3.2',
+	ollamaTimeoutSeconds: 120,
+	ollamaChatHost: 'http://localhost:11434',
+	ollamaChatModel: 'llama3.2',
+	ollamaChatTimeoutSeconds: 120,
+	openAIBaseUrl: 'http://localhost:8080/v1',
+	openAIModel: '',
+	openAIApiKey: '',
+	openAITimeoutSeconds: 120,
+	llmMaxRetries: 2,
+	parseConcurrency: 2,
+	llmRequestsPerMinute: 0,
+	cacheCheckpointInterval: 10,
+	backgroundIndexing: true,
+	minSupport: 2,
+	maxPValue: 1,
+	associationSort: 'pValue',
+	lagWindowMinHours: 0,
+	lagWindowMaxHours: 24,
+	shortSleepHours: 6,
+	highLevelThreshold: 7,
+	lowHydrationLiters: 1.5,
+	multivariableAnalysis: false,
+	aliasTable: 'ascorbic acid = vitamin c\nmigraine symptoms = migraine',
+	splitCompoundFoods: true,
+	editorSuggestions: true,
+	exportFolder: 'Health log analysis',
+	experiments: [],
+	weeklyNoteFormat: 'gggg-[W]ww',
+	monthlyNoteFormat: 'YYYY-MM',
+	periodicNotesFolder: '',
+	summaryHeading: 'Health summary',
+	summaryTemplate: '',
+	scheduleWeeklySummary: false,
+	scheduleMonthlySummary: false,
+	lastWeeklySummary: '',
+	lastMonthlySummary: ''
 }
 
-interface TimedItem {
+export interface TimedItem {
 	name?: string;
 	description?: string; // For symptoms
 	activity?: string; // For exercise
@@ -30,714 +148,6127 @@ interface TimedItem {
 	duration?: string;
 	severity?: string;
 	onset?: string; // e.g., "30min later", "2 hours after"
+	quality?: string; // For sleep, e.g. "poor" or "7/10"
+	level?: string; // For mood and stress, e.g. "high" or "6/10"
+	canonical?: string; // Normalized name used for analysis; the fields above keep the raw text
+	severityScore?: number; // Symptom severity on a 0-10 scale, derived from `severity` or the description
 }
 
-interface ParsedHealthData {
+export interface ParsedHealthData {
 	foods: TimedItem[];
 	supplements: TimedItem[];
+	medications: TimedItem[]; // Prescription and over-the-counter drugs, kept apart from supplements
 	exercise: TimedItem[];
 	symptoms: TimedItem[];
+	sleep: TimedItem[]; // duration and/or quality
+	mood: TimedItem[]; // name ("stress", "mood", "energy", ...) with a level
+	hydration: TimedItem[]; // name with the amount in `dose`
+	behaviors: TimedItem[]; // Free-form, e.g. "worked at desk" with a duration
+	absentSymptoms: TimedItem[]; // Explicit negations: "no headache today", or "symptoms" for "no issues"
+	positiveOutcomes: TimedItem[]; // e.g. "felt great", kept apart from symptoms
 }
 
-interface HealthEntry {
-	date: string;
+export interface HealthEntry {
+	date: string; // ISO YYYY-MM-DD when the note's date could be resolved, otherwise the note name
+	day: number | null; // Days since the Unix epoch, or null when the date is unknown
 	fileName: string;
 	parsed: ParsedHealthData;
 	rawContent: string;
 }
 
+interface AnalysisResults {
+	generatedAt: number;
+	entries: HealthEntry[];
+	associations: TemporalAssociation[];
+}
+
+interface EntrySummary {
+	entries: number;
+	firstDate?: string;
+	lastDate?: string;
+	uniqueFoods: number;
+	uniqueSupplements: number;
+	uniqueMedications: number;
+	uniqueExercise: number;
+	uniqueBehaviors: number;
+	uniqueSymptoms: number;
+	symptomFreeDays: number; // Days explicitly logged as symptom-free or feeling well, without symptoms
+}
+
+type ExportFormat = 'markdown' | 'csv' | 'json';
+
+interface IndexProgress {
+	phase: 'reading' | 'parsing';
+	completed: number;
+	total: number;
+	cached: number;
+	failed: number;
+	etaMinutes?: number;
+}
+
+interface IndexRunStats {
+	cachedCount: number;
+	parsedCount: number;
+	pendingCount: number; // Notes that needed parsing
+	failedFiles: string[];
+}
+
 interface CachedEntry {
 	fileName: string;
-	mtime: number; // File modification time
+	hash?: string; // Hash of the Health log section plus parser signature
+	parser?: string; // Parser signature the entry was produced with
 	parsed: ParsedHealthData;
+	status?: 'ok' | 'failed'; // Failed entries hold fallback data and are re-parsed next run
+	error?: string;
 }
 
 interface CacheData {
 	version: string; // Cache format version
-	entries: Record<string, CachedEntry>; // Keyed by file path
+	entries: Record<string, CachedEntry>; // Keyed by file path, validated by `hash`
+}
+
+interface ItemOverride {
+	// A correction from the review view, re-applied on top of every parse of the note
+	category: keyof ParsedHealthData;
+	match?: string; // itemKey() of the parsed item being corrected; absent for added items
+	item?: TimedItem; // Replacement or added item; absent when the parsed item is removed
 }
 
-interface TemporalAssociation {
+export type TriggerType = 'food' | 'supplement' | 'medication' | 'exercise' | 'behavior' | 'sleep' | 'mood' | 'hydration';
+
+export interface TemporalAssociation {
 	trigger: {
-		type: 'food' | 'supplement' | 'exercise';
+		type: TriggerType;
 		name: string;
 	};
 	symptom: string;
 	occurrences: Array<{
-		date: string;
+		date: string; // Note the trigger was logged in
+		symptomDate?: string; // Note the symptom was logged in, when different
 		triggerTime?: string;
 		symptomTime?: string;
 		timeLag?: string;
+		lagMinutes?: number; // Resolved trigger → symptom lag, when both are timed
+		severity?: number; // 0-10 severity of the matched symptom, when known
 	}>;
-	totalCount: number;
-	percentage: number;
+	totalCount: number; // Days with both the trigger and the symptom
+	percentage: number; // P(symptom | trigger) as a percentage
+	exposureDays: number; // Days the trigger was logged
+	symptomDays: number; // Days the symptom was logged
+	totalDays: number; // Days analyzed
+	baselineRate: number; // P(symptom) across all days
+	unexposedRate: number; // P(symptom | no trigger)
+	relativeRisk: number;
+	lift: number;
+	pValue: number; // One-sided Fisher's exact test
+	lagStats?: LagStats;
+	symptomFreeDays?: number; // Trigger days on which the symptom was explicitly logged as absent
+	unweightedLift?: number; // Lift and p-value without the extra weight of explicit absences, when there are any
+	unweightedPValue?: number;
+	covariates?: CovariateComparison[];
+	meanSeverity?: number; // Mean 0-10 severity over co-occurrences with a known severity
+	severityScore?: number; // Mean daily severity burden on trigger days (0 on days without the symptom)
+	baselineSeverityScore?: number; // Mean daily severity burden across all days
+	severityLift?: number; // severityScore / baselineSeverityScore
+	adjustedOddsRatio?: number; // Odds ratio from the multivariable model, controlling for co-occurring triggers
+	adjustedConfidence?: [number, number]; // Approximate 95% interval of the adjusted odds ratio
+	adjustedPValue?: number; // One-sided Wald test that the adjusted effect is positive
+	inseparableWith?: string[]; // Triggers logged on exactly the same days, whose effects cannot be told apart
 }
 
-export default class HealthLogAnalyzerPlugin extends Plugin {
-	settings: HealthLogSettings;
-	cache: CacheData;
-	cancelAnalysis: boolean = false;
+export interface CovariateComparison {
+	// Daily measure (sleep hours, stress level, ...) on days with vs without the trigger
+	name: string;
+	exposedMean: number;
+	unexposedMean: number;
+	exposedDays: number;
+	unexposedDays: number;
+}
 
-	async onload() {
-		await this.loadSettings();
-		await this.loadCache();
+interface EliminationExperiment {
+	id: string;
+	name: string;
+	triggers: string; // Comma-separated trigger names; any one of them counts as an exposure
+	symptoms: string; // Comma-separated symptoms to compare, empty for all
+	baselineStart: string; // Periods are inclusive YYYY-MM-DD ranges
+	baselineEnd: string;
+	eliminationStart: string;
+	eliminationEnd: string;
+	reintroductionStart: string; // Empty when there is no reintroduction period
+	reintroductionEnd: string;
+}
 
-		// Add ribbon icon
-		this.addRibbonIcon('activity', 'Analyze Health Logs', () => {
-			this.analyzeHealthLogs();
-		});
+interface ExperimentPeriod {
+	label: 'Baseline' | 'Elimination' | 'Reintroduction';
+	start: string;
+	end: string;
+	loggedDays: number;
+	exposures: Array<{ date: string; fileName: string; trigger: string }>;
+	symptoms: Record<string, { days: number; rate: number; meanSeverity?: number }>;
+}
 
-		// Add command
-		this.addCommand({
-			id: 'analyze-health-logs',
-			name: 'Analyze health logs',
-			callback: () => {
-				this.analyzeHealthLogs();
-			}
-		});
+interface ExperimentComparison {
+	symptom: string;
+	baseline: { days: number; rate: number; meanSeverity?: number };
+	elimination: { days: number; rate: number; meanSeverity?: number };
+	reintroduction?: { days: number; rate: number; meanSeverity?: number };
+	eliminationPValue: number; // One-sided Fisher test that the baseline rate is higher
+	reintroductionPValue?: number; // One-sided Fisher test that the reintroduction rate is higher
+}
 
-		// Add settings tab
-		this.addSettingTab(new HealthLogSettingTab(this.app, this));
-	}
+interface ExperimentResult {
+	experiment: EliminationExperiment;
+	generatedAt: number;
+	periods: ExperimentPeriod[];
+	comparisons: ExperimentComparison[];
+}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-	}
+interface KnownItem {
+	// A canonical name from the index with what is usually logged with it
+	name: string;
+	category: keyof ParsedHealthData;
+	count: number; // Items logged under this name
+	lastDay: number | null; // Most recent day it was logged, when dated
+	dose?: string; // Most common dose or duration
+	time?: string; // Median time of day, as HH:mm
+	score: number; // Frequency weighted by recency, for ranking
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
-	}
+type QuickLogCategory = 'food' | 'supplement' | 'exercise' | 'symptom';
 
-	async loadCache() {
-		const cacheFile = this.app.vault.adapter.getResourcePath('.obsidian/plugins/health-log-analyzer/cache.json');
-		try {
-			const data = await this.app.vault.adapter.read('.obsidian/plugins/health-log-analyzer/cache.json');
-			this.cache = JSON.parse(data);
+interface QuickLogEntry {
+	category: QuickLogCategory;
+	name: string;
+	time: string; // e.g. "08:30", empty to leave untimed
+	amount: string; // Dose for foods and supplements, duration for exercise
+	severity: string; // Symptoms only: a severity word or "x/10", empty when unrated
+}
 
-			// Validate cache version
-			if (this.cache.version !== '2.0.0') {
-				console.log('Cache version mismatch, resetting cache');
-				this.cache = { version: '2.0.0', entries: {} };
-			}
-		} catch (error) {
-			// Cache doesn't exist or is invalid, initialize empty
-			this.cache = { version: '2.0.0', entries: {} };
-		}
-	}
+type SummaryPeriodKind = 'weekly' | 'monthly';
 
-	async saveCache() {
-		try {
-			await this.app.vault.adapter.write(
-				'.obsidian/plugins/health-log-analyzer/cache.json',
-				JSON.stringify(this.cache, null, 2)
-			);
-		} catch (error) {
-			console.error('Failed to save cache:', error);
-		}
-	}
+interface SummaryPeriod {
+	kind: SummaryPeriodKind;
+	start: string; // YYYY-MM-DD, inclusive
+	end: string;
+	label: string; // e.g. "Week 42, 2026" or "October 2026"
+}
 
-	async callOllama(prompt: string): Promise<string> {
-		const url = `${this.settings.ollamaHost}/api/generate`;
+export type QueryOutput = 'table' | 'list' | 'chart';
 
-		try {
-			const response = await fetch(url, {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify({
-					model: this.settings.ollamaModel,
-					prompt: prompt,
-					stream: false,
-					format: 'json'
-				})
-			});
+export interface HealthLogQuery {
+	// Options of a `health-log` code block; unset filters match everything
+	trigger?: string; // Part of the trigger name
+	triggerType?: TriggerType;
+	symptom?: string; // Part of the symptom name
+	from?: string; // YYYY-MM-DD, defaults to the analysis period in settings
+	to?: string;
+	minCount: number; // Fewest days the symptom followed the trigger
+	sort: AssociationSortKey;
+	output: QueryOutput;
+	limit: number;
+}
 
-			if (!response.ok) {
-				throw new Error(`Ollama API error: ${response.statusText}`);
-			}
+export type AssociationQueryOptions = Partial<Omit<HealthLogQuery, 'output'>>;
 
-			const data = await response.json();
-			return data.response;
-		} catch (error) {
-			console.error('Ollama API call failed:', error);
-			throw error;
-		}
-	}
+/**
+ * Read-only access for other plugins and scripts, at
+ * `app.plugins.plugins['health-log-analyzer'].api`. Returned entries and
+ * associations are the plugin's own objects and must not be modified.
+ */
+export interface HealthLogApi {
+	/** Bumped on breaking changes to this interface. */
+	version: number;
+	/** Whether background indexing has finished; until then entries come from the last analysis. */
+	isIndexReady(): boolean;
+	/** Parsed entries in date order, optionally limited to an inclusive YYYY-MM-DD range. */
+	getEntries(from?: string, to?: string): HealthEntry[];
+	/** The parsed health log of one note, by path, or null if it has none or isn't indexed. */
+	getEntry(path: string): HealthEntry | null;
+	/** Associations scored over the given range and filtered as in a `health-log` code block. */
+	getAssociations(options?: AssociationQueryOptions): TemporalAssociation[];
+	/**
+	 * Parses a health log text block, with the LLM when it is enabled in
+	 * settings; `date` (default today) is passed to the model as context.
+	 * Rejects when the LLM request fails.
+	 */
+	parseText(text: string, date?: string): Promise<ParsedHealthData>;
+	/** Calls `callback` whenever indexed entries change; returns a function that unsubscribes. */
+	onIndexChanged(callback: () => void): () => void;
+}
 
-	async parseHealthLogWithLLM(content: string, date: string): Promise<ParsedHealthData> {
-		const prompt = `You are analyzing a health log entry. Extract all foods, supplements, exercise, and symptoms with their timing information.
+export interface LagStats {
+	// All values in minutes
+	median: number;
+	min: number;
+	max: number;
+	samples: number;
+}
 
-Date: ${date}
-Health Log Content:
-${content}
+type HealthCategory = 'food' | 'supplement' | 'medication' | 'exercise' | 'symptom' | 'sleep' | 'mood' | 'hydration' | 'behavior';
 
-Extract the following information and return ONLY a valid JSON object with this exact structure:
-{
-  "foods": [{"name": "food name", "time": "time if mentioned"}],
-  "supplements": [{"name": "supplement name", "dose": "dosage if mentioned", "time": "time if mentioned"}],
-  "exercise": [{"activity": "exercise description", "duration": "duration if mentioned", "time": "time if mentioned"}],
-  "symptoms": [{"description": "symptom description", "severity": "severity if mentioned", "time": "time if mentioned", "onset": "when it occurred relative to something else, e.g., '30min later', '2 hours after'"}]
-}
+// Keyword tables for the rule-based parser
+const FOOD_VERBS = /^(?:i\s+)?(?:ate|had|drank|consumed|eating|drinking|ingested|snacked on)\s+/i;
+const SUPPLEMENT_VERBS = /^(?:i\s+)?(?:took|take|taking)\s+/i;
+const EXERCISE_PATTERN = /\b(?:exercis\w*|work(?:ed)? out|workout|ran|run|running|jog\w*|walk\w*|hik\w*|yoga|hiit|lift\w*|cycl\w*|biked?|swam|swim\w*|climb\w*|stretch\w*|pilates|gym)\b/i;
+const SYMPTOM_PATTERN = /\b(?:pain|aches?|\w*ache|migraines?|nause\w*|bloat\w*|cramp\w*|reflux|heartburn|acid\w*|diarrh\w*|constipat\w*|fatigue\w*|tired|exhausted|dizz\w*|anxi\w*|fog|itch\w*|rash|hives|swell\w*|swollen|congest\w*|sore|malaise|discomfort|gas|gassy|vomit\w*|insomnia|palpitations|inflam\w*|stiff\w*|symptoms?)\b/i;
+const MEDICATION_PATTERN = /\b(?:ibuprofen|advil|paracetamol|acetaminophen|tylenol|aspirin|naproxen|\w+triptan|\w+prazole|antihistamines?|cetirizine|loratadine|fexofenadine|metformin|levothyroxine|prednis\w*|antibiotics?|\w+cillin|\w+mycin|sertraline|\w+oxetine|\w+pril|\w+olol|\w+statin|insulin|inhaler|prescription|meds?|medications?)\b/i;
+const SLEEP_PATTERN = /\b(?:sleep|slept|nap(?:ped)?|bedtime)\b/i;
+const MOOD_PATTERN = /\b(stress(?:ed|ful)?|mood|energy|anxiety level)\b/i;
+const HYDRATION_PATTERN = /^(?:(?:sparkling|still|mineral|plain|coconut|lemon)\s+)?water$|^(?:electrolytes?|fluids?|hydration)$/i;
+const NEGATION_PATTERN = /^(?:no|not|none|without|never)\b|\bno (?:issues|problems|symptoms)\b/i;
+const ABSENCE_PATTERN = /^(?:no|not|without|never|didn'?t (?:have|get|feel)|did not (?:have|get|feel))\s+(?:any\s+|an?\s+|more\s+)?(.+?)\s*(?:today|tonight|this time|at all|either|anymore|so far)?[.!]*$/i;
+const GENERAL_ABSENCE_PATTERN = /^(?:issues|problems|symptoms|reactions?|complaints|side effects)$/i;
+const POSITIVE_OUTCOME_PATTERN = /^(?:i\s+)?(?:felt|feeling|feel|feels)\s+(?:really\s+|very\s+|so\s+|much\s+)?(?:great|good|fine|amazing|fantastic|better|well|normal|energi[sz]ed|rested|refreshed)\b|^(?:great|good|fine|all good)(?:\s+(?:day|today))?[.!]*$|\bsymptom[- ]free\b/i;
+// Subject recorded for absence statements that cover every symptom ("no issues")
+const ANY_SYMPTOM = 'symptoms';
+const NARRATIVE_SEPARATOR = /\s*[—–]\s*|\s+-{1,3}\s+|\s+(?:followed by|resulting in|led to|caused)\s+/i;
+const QUANTITY_PATTERN = /\b\d+(?:[.,/]\d+)?\s*(?:mg|mcg|µg|ug|g|kg|ml|l|iu|oz|lbs?|cups?|glass(?:es)?|mugs?|bowls?|tbsp|tsp|tablespoons?|teaspoons?|pieces?|slices?|squares?|servings?|handfuls?|capsules?|caps|tablets?|tabs|pills?|drops?|scoops?|shots?|bottles?|cans?|pints?)\b(?:\s+of\b)?/i;
+const SEVERITY_PATTERN = /\b(very mild|mild|slight(?:ly)?|minor|moderate(?:ly)?|severe(?:ly)?|bad|terrible|intense|extreme|debilitating|awful)\b|\b(\d{1,2}(?:\.\d)?\s*\/\s*10)\b/i;
+const TIME_PATTERNS: RegExp[] = [
+	/\s*\((?:at\s+)?(\d{1,2}(?::\d{2})?\s*[ap]m|\d{1,2}:\d{2})\)/i,
+	/\s+(?:at|around|about|by|@)\s+(\d{1,2}(?::\d{2})?\s*[ap]m|\d{1,2}:\d{2}|noon|midnight)\b/i,
+	/\s+(?:for|at|with|during)\s+(breakfast|brunch|lunch|dinner|supper|snack)\b/i,
+	/\s+(?:in the|this|that)\s+(morning|afternoon|evening|night)\b/i
+];
+const MEAL_HEADING_PATTERN = /\b(?:breakfast|brunch|lunch|dinner|supper|snacks?)\b/i;
+const LEADING_TIME_PATTERN = /^(\d{1,2}:\d{2}(?:\s*[ap]m)?|\d{1,2}\s*[ap]m)\b\s*[-–—:]?\s*/i;
+const ONSET_PATTERNS: RegExp[] = [
+	/\b(?:\d+(?:\.\d+)?|an?|one|two|few|couple(?: of)?)\s*-?\s*(?:min(?:ute)?s?|h(?:ou)?rs?|hours?|days?)\s+(?:later|after(?:wards?)?)\b.*$/i,
+	/\b(?:within|after|in)\s+(?:half an|an?|\d+(?:\.\d+)?)\s*(?:min(?:ute)?s?|h(?:ou)?rs?|hours?|days?)\b.*$/i,
+	/\b(?:the\s+)?next\s+(?:day|morning|afternoon|evening|night)\b.*$/i,
+	/\b(?:shortly after|right after|immediately)\b.*$/i,
+	/\bafter\s+(?:breakfast|brunch|lunch|dinner|supper|eating|meals?|that)\b.*$/i,
+	/\b(?:later|afterwards?|after)\s*$/i
+];
 
-Rules:
-- Extract the actual substance/food name, not the category heading (e.g., "ascorbic acid" not "Morning (food)")
-- For supplements, extract the substance name and dosage separately (e.g., "225mg ascorbic acid" → name: "ascorbic acid", dose: "225mg")
-- For symptoms, extract the actual symptom phrase (e.g., "feeling slightly fatigued and anxious", "stomach feels quite acidic")
-- Include relative timing like "30min later", "after", "2 hours later" in the onset field
-- If no timing information is present, omit the time/onset fields
-- Return ONLY the JSON object, no additional text or explanation`;
+const DAY_MINUTES = 24 * 60;
 
-		try {
-			const response = await this.callOllama(prompt);
-			const parsed = JSON.parse(response);
+// Anchors for meal and part-of-day words, in minutes after midnight
+const TIME_OF_DAY_MINUTES: Record<string, number> = {
+	midnight: 0,
+	breakfast: 8 * 60,
+	morning: 9 * 60,
+	brunch: 11 * 60,
+	noon: 12 * 60,
+	lunch: 12 * 60 + 30,
+	afternoon: 15 * 60,
+	snack: 15 * 60 + 30,
+	dinner: 19 * 60,
+	supper: 19 * 60,
+	evening: 19 * 60,
+	night: 22 * 60
+};
 
-			// Ensure all arrays exist
-			return {
-				foods: parsed.foods || [],
-				supplements: parsed.supplements || [],
-				exercise: parsed.exercise || [],
-				symptoms: parsed.symptoms || []
-			};
-		} catch (error) {
-			console.error('Failed to parse health log with LLM:', error);
-			// Return empty structure on error
-			return {
-				foods: [],
-				supplements: [],
-				exercise: [],
-				symptoms: []
-			};
-		}
+const NUMBER_WORDS: Record<string, number> = {
+	'a': 1,
+	'an': 1,
+	'one': 1,
+	'two': 2,
+	'three': 3,
+	'few': 3,
+	'couple': 2,
+	'couple of': 2,
+	'half an': 0.5
+};
+
+// Wording for 0-10 scales shared by sleep quality and mood/stress levels
+const SCALE_WORDS: Record<string, number> = {
+	'very low': 1,
+	'terrible': 1,
+	'awful': 1,
+	'very poor': 1,
+	'low': 3,
+	'poor': 3,
+	'poorly': 3,
+	'bad': 3,
+	'badly': 3,
+	'restless': 3,
+	'broken': 3,
+	'mild': 3,
+	'ok': 5,
+	'okay': 5,
+	'fair': 5,
+	'average': 5,
+	'medium': 5,
+	'moderate': 5,
+	'decent': 6,
+	'fine': 6,
+	'good': 7,
+	'well': 7,
+	'high': 7,
+	'deep': 8,
+	'very good': 8,
+	'great': 9,
+	'excellent': 9,
+	'very high': 9,
+	'extreme': 10
+};
+const SCALE_WORD_PATTERN = scaleWordPattern(SCALE_WORDS);
+
+// Symptom wording mapped onto a 0-10 severity scale
+const SEVERITY_WORDS: Record<string, number> = {
+	'very mild': 1,
+	'barely noticeable': 1,
+	'slight': 2,
+	'slightly': 2,
+	'minor': 2,
+	'mild': 3,
+	'mildly': 3,
+	'noticeable': 4,
+	'moderate': 5,
+	'moderately': 5,
+	'medium': 5,
+	'bad': 6,
+	'strong': 7,
+	'very bad': 7,
+	'severe': 8,
+	'severely': 8,
+	'intense': 8,
+	'terrible': 9,
+	'awful': 9,
+	'horrible': 9,
+	'extreme': 10,
+	'excruciating': 10,
+	'unbearable': 10,
+	'debilitating': 10
+};
+const SEVERITY_WORD_PATTERN = scaleWordPattern(SEVERITY_WORDS);
+
+// Assumed severity for symptoms logged without any severity wording
+const DEFAULT_SEVERITY = 5;
+
+// Mood scales where a low value is the notable state
+const POSITIVE_MOOD_NAMES = new Set(['mood', 'energy']);
+
+function scaleWordPattern(words: Record<string, number>): RegExp {
+	// Longest phrases first so "very mild" wins over "mild"
+	return new RegExp(`\\b(${Object.keys(words).sort((a, b) => b.length - a.length).join('|')})\\b`, 'i');
+}
+
+/**
+ * Reads a 0-10 value from "6/10", "3/5", a bare number up to 10 or a word
+ * such as "moderate". Returns null when nothing recognizable is present.
+ */
+function parseScale(text?: string, words: Record<string, number> = SCALE_WORDS, wordPattern: RegExp = SCALE_WORD_PATTERN): number | null {
+	if (!text) return null;
+	const ratio = text.match(/(\d+(?:\.\d+)?)\s*\/\s*(10|5)\b/);
+	if (ratio) {
+		return Math.min(10, parseFloat(ratio[1]) * (ratio[2] === '5' ? 2 : 1));
 	}
+	const bare = text.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+	if (bare && parseFloat(bare[1]) <= 10) {
+		return parseFloat(bare[1]);
+	}
+	const word = text.match(wordPattern);
+	return word ? words[word[1].toLowerCase()] : null;
+}
 
-	async analyzeHealthLogs() {
-		try {
-			new Notice('Analyzing health logs...');
+/** 0-10 severity from "6/10", "severe", "slight headache" and the like, or null. */
+function parseSeverity(text?: string): number | null {
+	return parseScale(text, SEVERITY_WORDS, SEVERITY_WORD_PATTERN);
+}
 
-			// Find all daily notes
-			const dailyNotes = await this.findDailyNotes();
+/**
+ * A symptom's severity on each dated note, highest instance per note, in
+ * date order. Symptoms without severity wording get null.
+ */
+function symptomSeverityTimeline(entries: HealthEntry[], symptom: string): Array<{ entry: HealthEntry; severity: number | null }> {
+	const points: Array<{ entry: HealthEntry; severity: number | null }> = [];
+	for (const entry of [...entries].sort(compareEntries)) {
+		const matches = entry.parsed.symptoms.filter(item => itemName(item) === symptom);
+		if (matches.length === 0) continue;
+		const known = matches
+			.map(item => item.severityScore)
+			.filter((value): value is number => value !== undefined);
+		points.push({ entry, severity: known.length > 0 ? Math.max(...known) : null });
+	}
+	return points;
+}
 
-			if (dailyNotes.length === 0) {
-				new Notice('No daily notes found!');
-				return;
-			}
+/** Hours from "7 hours", "6.5h", "7h30" or "45 min", or null. */
+function parseDurationHours(text?: string): number | null {
+	if (!text) return null;
+	const hours = text.match(/(\d+(?:\.\d+)?)\s*-?\s*h(?:ou)?r?s?\b\s*(?:(\d{1,2})\s*m(?:in(?:ute)?s?)?\b)?|(\d+(?:\.\d+)?)\s*h(\d{2})\b/i);
+	if (hours) {
+		if (hours[3]) return parseFloat(hours[3]) + parseInt(hours[4], 10) / 60;
+		return parseFloat(hours[1]) + (hours[2] ? parseInt(hours[2], 10) / 60 : 0);
+	}
+	const minutes = text.match(/(\d+)\s*-?\s*min(?:ute)?s?\b/i);
+	return minutes ? parseInt(minutes[1], 10) / 60 : null;
+}
 
-			// Extract health log entries
-			const healthEntries = await this.extractHealthEntries(dailyNotes);
+/** Litres from amounts like "500ml", "2 L", "3 glasses" or "16 oz", or null. */
+function parseVolumeLiters(text?: string): number | null {
+	const match = text?.match(/(\d+(?:[.,]\d+)?)\s*(ml|millilit(?:er|re)s?|l|lit(?:er|re)s?|oz|cups?|glass(?:es)?|mugs?|bottles?)\b/i);
+	if (!match) return null;
+	const amount = parseFloat(match[1].replace(',', '.'));
+	const unit = match[2].toLowerCase();
+	if (unit.startsWith('m') && unit !== 'mug' && unit !== 'mugs') return amount / 1000;
+	if (unit === 'l' || unit.startsWith('lit')) return amount;
+	if (unit === 'oz') return amount * 0.0296;
+	if (unit.startsWith('bottle')) return amount * 0.5;
+	return amount * 0.25; // cups, glasses and mugs
+}
 
-			if (healthEntries.length === 0) {
-				new Notice(`No "${this.settings.healthLogHeading}" sections found in daily notes!`);
-				return;
-			}
+/**
+ * The symptom an absence statement rules out: "no headache today" → "headache",
+ * "no issues" → ANY_SYMPTOM. Returns null when the statement is not about symptoms.
+ */
+function absentSymptom(text: string): string | null {
+	const trimmed = text.trim();
+	if (/^(?:none|nothing)(?:\s+today)?[.!]*$/i.test(trimmed)) return ANY_SYMPTOM;
+	const match = trimmed.match(ABSENCE_PATTERN);
+	if (!match) return /\bno (?:issues|problems|symptoms)\b/i.test(trimmed) ? ANY_SYMPTOM : null;
+	const subject = match[1].trim();
+	if (GENERAL_ABSENCE_PATTERN.test(subject)) return ANY_SYMPTOM;
+	return SYMPTOM_PATTERN.test(subject) ? subject : null;
+}
 
-			// Analyze associations
-			const associations = this.analyzeAssociations(healthEntries);
+/** Whether an absence item rules out every symptom rather than a named one */
+function coversAllSymptoms(item: TimedItem): boolean {
+	// Canonical names are singularized, so "symptoms" is grouped as "symptom"
+	return /^symptoms?$/.test(itemName(item));
+}
 
-			// Display results
-			new HealthLogResultsModal(this.app, healthEntries, associations).open();
+/** Whether `symptom` was explicitly logged as absent on `date`, by name or by "no symptoms". */
+function isExplicitlyAbsent(absences: Map<string, Set<string>>, date: string, symptom: string): boolean {
+	const absent = absences.get(date);
+	return !!absent && (absent.has(symptom) || absent.has(ANY_SYMPTOM));
+}
 
-		} catch (error) {
-			console.error('Error analyzing health logs:', error);
-			new Notice('Error analyzing health logs. Check console for details.');
+function emptyParsedData(): ParsedHealthData {
+	return {
+		foods: [],
+		supplements: [],
+		medications: [],
+		exercise: [],
+		symptoms: [],
+		sleep: [],
+		mood: [],
+		hydration: [],
+		behaviors: [],
+		absentSymptoms: [],
+		positiveOutcomes: []
+	};
+}
+
+/**
+ * Builds a matcher from the heading list setting. Plain lines match a heading
+ * title case-insensitively; lines written as /pattern/ are regular expressions.
+ */
+function createHeadingMatcher(headings: string): (title: string) => boolean {
+	const literals = new Set<string>();
+	const patterns: RegExp[] = [];
+	for (const line of headings.split('\n').map(l => l.trim()).filter(Boolean)) {
+		const regex = line.match(/^\/(.+)\/([a-z]*)$/);
+		if (regex) {
+			try {
+				patterns.push(new RegExp(regex[1], regex[2].includes('i') ? regex[2] : regex[2] + 'i'));
+			} catch (error) {
+				console.warn(`Ignoring invalid heading pattern ${line}:`, error);
+			}
+		} else {
+			literals.add(line.toLowerCase());
 		}
 	}
+	return (title: string) => literals.has(title.toLowerCase()) || patterns.some(p => p.test(title));
+}
 
-	async findDailyNotes(): Promise<TFile[]> {
-		const files = this.app.vault.getMarkdownFiles();
-		const dailyNotes: TFile[] = [];
+// Days after which an item's recency bonus has halved
+const SUGGESTION_RECENCY_HALF_LIFE = 30;
 
-		for (const file of files) {
-			if (this.settings.useDateRegex) {
-				// Match files by date regex pattern
-				const regex = new RegExp(this.settings.dateRegexPattern);
-				if (regex.test(file.basename)) {
-					dailyNotes.push(file);
-				}
-			} else {
-				// Match files by tag
-				const cache = this.app.metadataCache.getFileCache(file);
-				if (cache?.tags?.some(tag => tag.tag === this.settings.dailyNoteTag)) {
-					dailyNotes.push(file);
-				}
+/**
+ * Frequency, usual dose and typical time of every canonical name in
+ * `categories`, ranked by count weighted towards recently logged items.
+ */
+function collectKnownItems(entries: HealthEntry[], categories: Array<keyof ParsedHealthData>): KnownItem[] {
+	const today = Math.floor(Date.now() / 86400000);
+	const stats = new Map<string, { category: keyof ParsedHealthData; count: number; lastDay: number | null; doses: Map<string, number>; minutes: number[] }>();
+	for (const entry of entries) {
+		for (const category of categories) {
+			for (const item of entry.parsed[category] || []) {
+				const name = itemName(item);
+				if (!stats.has(name)) stats.set(name, { category, count: 0, lastDay: null, doses: new Map(), minutes: [] });
+				const stat = stats.get(name)!;
+				stat.count++;
+				if (entry.day !== null && (stat.lastDay === null || entry.day > stat.lastDay)) stat.lastDay = entry.day;
+				const dose = item.dose || item.duration;
+				if (dose) stat.doses.set(dose, (stat.doses.get(dose) || 0) + 1);
+				const minute = parseTimeOfDay(item.time);
+				if (minute !== null) stat.minutes.push(minute);
 			}
 		}
-
-		return dailyNotes.sort((a, b) => a.basename.localeCompare(b.basename));
 	}
 
-	async extractHealthEntries(files: TFile[]): Promise<HealthEntry[]> {
-		const entries: HealthEntry[] = [];
-		let processedCount = 0;
-		let cachedCount = 0;
-		let parsedCount = 0;
+	return Array.from(stats.entries()).map(([name, stat]) => {
+		const dose = Array.from(stat.doses.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+		const minutes = stat.minutes.sort((a, b) => a - b);
+		const median = minutes.length > 0 ? minutes[Math.floor(minutes.length / 2)] : null;
+		const recency = stat.lastDay !== null ? Math.pow(0.5, Math.max(0, today - stat.lastDay) / SUGGESTION_RECENCY_HALF_LIFE) : 0;
+		return {
+			name,
+			category: stat.category,
+			count: stat.count,
+			lastDay: stat.lastDay,
+			dose,
+			time: median !== null ? moment.utc(median * 60000).format('HH:mm') : undefined,
+			score: stat.count * (1 + recency)
+		};
+	}).sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
 
-		// Reset cancel flag
-		this.cancelAnalysis = false;
+/** First heading from the heading list setting that is a plain name, used when a heading has to be created */
+function primaryHealthLogHeading(headings: string): string {
+	return headings.split('\n').map(l => l.trim()).find(l => l && !/^\/.+\/[a-z]*$/.test(l)) || 'Health log';
+}
 
-		// Create persistent notice with cancel button
-		const fragment = document.createDocumentFragment();
-		const noticeEl = document.createElement('div');
-		noticeEl.style.display = 'flex';
-		noticeEl.style.alignItems = 'center';
-		noticeEl.style.gap = '10px';
-		noticeEl.style.width = '100%';
+/**
+ * Inserts a line at the end of the first matching heading's section, or
+ * appends a new section when no heading matches.
+ */
+function insertUnderHeading(content: string, line: string, matches: (title: string) => boolean, newHeading: string): string {
+	const lines = content.split('\n');
+	const start = lines.findIndex(l => {
+		const heading = l.match(/^#{1,6}\s+(.+)$/);
+		return !!heading && matches(heading[1].trim());
+	});
+	if (start === -1) {
+		const body = content.replace(/\s+$/, '');
+		return `${body}${body ? '\n\n' : ''}## ${newHeading}\n${line}\n`;
+	}
 
-		const messageEl = document.createElement('span');
-		noticeEl.appendChild(messageEl);
+	const level = lines[start].match(/^#+/)![0].length;
+	let end = lines.length;
+	for (let i = start + 1; i < lines.length; i++) {
+		const heading = lines[i].match(/^(#{1,6})\s+/);
+		if (heading && heading[1].length <= level) {
+			end = i;
+			break;
+		}
+	}
+	// After the last non-blank line, so the blank line before the next heading stays
+	let position = end;
+	while (position > start + 1 && !lines[position - 1].trim()) position--;
+	lines.splice(position, 0, line);
+	return lines.join('\n');
+}
 
-		const cancelBtn = document.createElement('button');
-		cancelBtn.textContent = 'Cancel';
-		cancelBtn.style.marginLeft = 'auto';
-		cancelBtn.addEventListener('click', () => {
-			this.cancelAnalysis = true;
-			cancelBtn.disabled = true;
-			cancelBtn.textContent = 'Cancelling...';
-		});
-		noticeEl.appendChild(cancelBtn);
+/**
+ * Inserts a line at the end of the first callout of one of `types`, or
+ * appends a new callout of the first type when there is none.
+ */
+function insertIntoCallout(content: string, line: string, types: string[]): string {
+	const lines = content.split('\n');
+	const start = lines.findIndex(l => {
+		const callout = l.match(/^\s*>\s?\[!([^\]]+)\]/);
+		return !!callout && types.includes(callout[1].trim().toLowerCase());
+	});
+	if (start === -1) {
+		const body = content.replace(/\s+$/, '');
+		return `${body}${body ? '\n\n' : ''}> [!${types[0] || 'health'}] Health log\n> ${line}\n`;
+	}
 
-		fragment.appendChild(noticeEl);
+	let position = start + 1;
+	while (position < lines.length && /^\s*>/.test(lines[position])) position++;
+	lines.splice(position, 0, `> ${line}`);
+	return lines.join('\n');
+}
 
-		const notice = new Notice(fragment, 0); // 0 = persistent
+/**
+ * A quick-log entry as a Health log line in the shape the parsers read
+ * best, e.g. "- 08:30 Food: coffee (2 cups)" or "- 14:00 Symptom: headache (moderate)".
+ */
+function formatQuickLogLine(entry: QuickLogEntry): string {
+	let text = entry.name.trim();
+	const amount = entry.amount.trim();
+	if (entry.category === 'symptom') {
+		if (entry.severity) text += ` (${entry.severity})`;
+	} else if (entry.category === 'exercise') {
+		if (amount) text += ` for ${amount}`;
+	} else if (amount) {
+		text += ` (${amount})`;
+	}
+	const label = entry.category.charAt(0).toUpperCase() + entry.category.slice(1);
+	return `- ${entry.time.trim() ? `${entry.time.trim()} ` : ''}${label}: ${text}`;
+}
 
-		const updateNotice = (message: string) => {
-			messageEl.textContent = message;
-		};
+/** Fills in {{date}}, {{date:format}}, {{time}} and {{title}} as core templates do. */
+function applyDateTemplate(template: string, date: moment.Moment, format: string, title: string): string {
+	return template
+		.replace(/{{\s*date\s*(?::(.*?))?}}/gi, (_, dateFormat?: string) => date.format(dateFormat?.trim() || format))
+		.replace(/{{\s*time\s*(?::(.*?))?}}/gi, (_, timeFormat?: string) => moment().format(timeFormat?.trim() || 'HH:mm'))
+		.replace(/{{\s*title\s*}}/gi, title);
+}
 
-		try {
-			for (const file of files) {
-				// Check for cancellation
-				if (this.cancelAnalysis) {
-					updateNotice(`Cancelled after processing ${processedCount}/${files.length} files`);
-					await this.saveCache(); // Save what we've processed so far
-					setTimeout(() => notice.hide(), 3000);
-					return entries;
-				}
-
-				const content = await this.app.vault.read(file);
-				const healthLogContent = this.extractHealthLogSection(content);
-
-				if (healthLogContent) {
-					processedCount++;
-
-					let parsed: ParsedHealthData;
-					const filePath = file.path;
-					const mtime = file.stat.mtime;
-
-					// Check cache first
-					const cachedEntry = this.cache.entries[filePath];
-					if (cachedEntry && cachedEntry.mtime === mtime) {
-						// Use cached data
-						parsed = cachedEntry.parsed;
-						cachedCount++;
-					} else {
-						// Need to parse
-						parsedCount++;
-
-						// Update notice with current file
-						updateNotice(`Processing ${processedCount}/${files.length}: ${file.basename} (${cachedCount} cached, ${parsedCount} parsed)`);
-
-						if (this.settings.useOllama) {
-							try {
-								parsed = await this.parseHealthLogWithLLM(healthLogContent, file.basename);
-							} catch (error) {
-								console.error(`Failed to parse ${file.basename} with LLM:`, error);
-								// Fallback to empty data on error
-								parsed = {
-									foods: [],
-									supplements: [],
-									exercise: [],
-									symptoms: []
-								};
-							}
-						} else {
-							// Fallback: use old parser
-							parsed = this.parseHealthLogLegacy(healthLogContent);
-						}
+/** The calendar week (in the current locale) or month containing `date`. */
+function summaryPeriod(kind: SummaryPeriodKind, date: moment.Moment): SummaryPeriod {
+	const unit = kind === 'weekly' ? 'week' : 'month';
+	const start = date.clone().startOf(unit);
+	return {
+		kind,
+		start: start.format('YYYY-MM-DD'),
+		end: date.clone().endOf(unit).format('YYYY-MM-DD'),
+		label: start.format(kind === 'weekly' ? '[Week] w, gggg' : 'MMMM YYYY')
+	};
+}
 
-						// Update cache
-						this.cache.entries[filePath] = {
-							fileName: filePath,
-							mtime: mtime,
-							parsed: parsed
-						};
-					}
+function previousSummaryPeriod(period: SummaryPeriod): SummaryPeriod {
+	return summaryPeriod(period.kind, moment(period.start).subtract(1, period.kind === 'weekly' ? 'week' : 'month'));
+}
 
-					// Only add entry if we found at least something
-					if (parsed.foods.length > 0 || parsed.supplements.length > 0 ||
-					    parsed.exercise.length > 0 || parsed.symptoms.length > 0) {
-						entries.push({
-							date: file.basename,
-							fileName: file.path,
-							parsed: parsed,
-							rawContent: healthLogContent
-						});
-					}
-				}
-			}
+const DEFAULT_SUMMARY_TEMPLATE = `{{period}}, compared with {{previousPeriod}}
 
-			// Save cache after processing all files
-			await this.saveCache();
+Logged days: {{loggedDays}}
+Days without a health log: {{missingDays}}
 
-			updateNotice(`✓ Analysis complete! ${cachedCount} from cache, ${parsedCount} newly parsed.`);
-			setTimeout(() => notice.hide(), 3000);
+### Symptoms
 
-		} catch (error) {
-			updateNotice(`❌ Error during analysis: ${error.message}`);
-			setTimeout(() => notice.hide(), 5000);
-			throw error;
-		}
+{{symptoms}}
 
-		return entries;
-	}
+### New or strengthening associations
 
-	extractHealthLogSection(content: string): string | null {
-		// Find the health log heading and extract content until next heading of same or higher level
-		const lines = content.split('\n');
-		let inHealthLog = false;
-		let healthLogLines: string[] = [];
-		let headingLevel = 0;
+{{associations}}
 
-		for (const line of lines) {
-			// Check if this is a heading
-			const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+### Top triggers
 
-			if (headingMatch) {
-				const level = headingMatch[1].length;
-				const title = headingMatch[2].trim();
+{{topTriggers}}`;
 
-				if (title.toLowerCase() === this.settings.healthLogHeading.toLowerCase()) {
-					inHealthLog = true;
-					headingLevel = level;
-					continue;
-				} else if (inHealthLog && level <= headingLevel) {
-					// We've hit another heading of the same or higher level, stop
-					break;
-				}
-			}
+/**
+ * Replaces the body of the section under `heading`, or appends the section.
+ * `body` is written for a level-2 section; its headings shift to match.
+ */
+function replaceSection(content: string, heading: string, body: string): string {
+	const lines = content.split('\n');
+	const start = lines.findIndex(l => {
+		const match = l.match(/^#{1,6}\s+(.+?)\s*$/);
+		return !!match && match[1].toLowerCase() === heading.trim().toLowerCase();
+	});
+	if (start === -1) {
+		const before = content.replace(/\s+$/, '');
+		return `${before}${before ? '\n\n' : ''}## ${heading.trim()}\n\n${body.trim()}\n`;
+	}
 
-			if (inHealthLog) {
-				healthLogLines.push(line);
-			}
+	const level = lines[start].match(/^#+/)![0].length;
+	const shifted = body.trim().replace(/^(#{1,6})(?=\s)/gm, hashes => '#'.repeat(Math.min(6, hashes.length + level - 2)));
+	let end = lines.length;
+	for (let i = start + 1; i < lines.length; i++) {
+		const match = lines[i].match(/^(#{1,6})\s+/);
+		if (match && match[1].length <= level) {
+			end = i;
+			break;
 		}
-
-		return healthLogLines.length > 0 ? healthLogLines.join('\n') : null;
 	}
+	lines.splice(start + 1, end - start - 1, '', shifted, '');
+	return lines.join('\n');
+}
 
-	parseHealthLogLegacy(content: string): ParsedHealthData {
-		// Simplified fallback parser - just returns empty data
-		// The LLM should be the primary parser
-		return {
-			foods: [],
-			supplements: [],
-			exercise: [],
-			symptoms: []
-		};
-	}
+/**
+ * Time-of-day context from a sub-heading such as "### Breakfast",
+ * "### Evening" or "### 8:30", or null when the heading names no time.
+ */
+function headingTimeContext(title: string): string | null {
+	const clock = title.match(LEADING_TIME_PATTERN);
+	if (clock) return clock[1];
+	const word = title.toLowerCase().match(/[a-z]+/g)?.find(w => w in TIME_OF_DAY_MINUTES);
+	return word || null;
+}
 
-	analyzeAssociations(entries: HealthEntry[]): TemporalAssociation[] {
-		const associationMap = new Map<string, Map<string, TemporalAssociation>>();
+/** Marker placed between merged health log sections; resets heading context. */
+const SECTION_SEPARATOR = '\n\n---\n\n';
 
-		// For each entry, link triggers (foods/supplements/exercise) to symptoms
-		for (const entry of entries) {
-			const triggers = [
-				...entry.parsed.foods.map(f => ({ type: 'food' as const, item: f })),
-				...entry.parsed.supplements.map(s => ({ type: 'supplement' as const, item: s })),
-				...entry.parsed.exercise.map(e => ({ type: 'exercise' as const, item: e }))
-			];
+/**
+ * Day number (days since the Unix epoch) of the first YYYY-MM-DD date in a
+ * string, or null when it carries no date.
+ */
+function parseNoteDay(date: string): number | null {
+	const match = date.match(/(\d{4})-(\d{2})-(\d{2})/);
+	if (!match) return null;
+	return Math.round(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) / 86400000);
+}
 
-			for (const trigger of triggers) {
-				// Extract name from different fields depending on trigger type
-				const triggerName = trigger.item.name || trigger.item.activity || trigger.item.description || 'unknown';
-				const triggerKey = `${trigger.type}:${triggerName}`;
+function dayToIsoDate(day: number): string {
+	return new Date(day * 86400000).toISOString().slice(0, 10);
+}
 
-				if (!associationMap.has(triggerKey)) {
-					associationMap.set(triggerKey, new Map());
-				}
+function momentToDay(value: moment.Moment): number | null {
+	if (!value.isValid()) return null;
+	return Math.round(Date.UTC(value.year(), value.month(), value.date()) / 86400000);
+}
 
-				const symptomMap = associationMap.get(triggerKey)!;
+function compareEntries(a: HealthEntry, b: HealthEntry): number {
+	// Dated entries in chronological order, undated ones after them by name
+	if (a.day !== null && b.day !== null) return a.day - b.day || a.fileName.localeCompare(b.fileName);
+	if (a.day !== null) return -1;
+	if (b.day !== null) return 1;
+	return a.date.localeCompare(b.date);
+}
 
-				// Link to symptoms in same entry
-				for (const symptom of entry.parsed.symptoms) {
-					const symptomKey = symptom.description || symptom.name || 'unknown';
-
-					if (!symptomMap.has(symptomKey)) {
-						symptomMap.set(symptomKey, {
-							trigger: {
-								type: trigger.type,
-								name: triggerName
-							},
-							symptom: symptomKey,
-							occurrences: [],
-							totalCount: 0,
-							percentage: 0
-						});
-					}
+/**
+ * Keeps entries whose date falls within [start, end] (inclusive, YYYY-MM-DD).
+ * Entries without a known date are dropped whenever a bound is set.
+ */
+function filterEntriesByDateRange(entries: HealthEntry[], start?: string, end?: string): HealthEntry[] {
+	const from = start ? parseNoteDay(start) : null;
+	const to = end ? parseNoteDay(end) : null;
+	if (from === null && to === null) return entries;
 
-					const assoc = symptomMap.get(symptomKey)!;
-					assoc.occurrences.push({
-						date: entry.date,
-						triggerTime: trigger.item.time,
-						symptomTime: symptom.time,
-						timeLag: symptom.onset
-					});
-					assoc.totalCount++;
-				}
-			}
-		}
+	return entries.filter(entry => {
+		if (entry.day === null) return false;
+		return (from === null || entry.day >= from) && (to === null || entry.day <= to);
+	});
+}
 
-		// Flatten the nested maps and calculate percentages
-		const associations: TemporalAssociation[] = [];
-		for (const [triggerKey, symptomMap] of associationMap) {
-			// Count total occurrences of this trigger across all entries
-			const totalTriggerOccurrences = Array.from(symptomMap.values())
-				.reduce((sum, assoc) => Math.max(sum, assoc.totalCount), 0);
+/**
+ * Minutes after midnight for "2pm", "14:30", "lunch", "in the evening", etc.
+ */
+function parseTimeOfDay(text?: string): number | null {
+	if (!text) return null;
 
-			for (const assoc of symptomMap.values()) {
-				// Calculate percentage: how often did this symptom occur when trigger was present?
-				assoc.percentage = (assoc.totalCount / totalTriggerOccurrences) * 100;
-				associations.push(assoc);
-			}
+	const clock = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\b/i) || text.match(/\b(\d{1,2}):(\d{2})\b/);
+	if (clock) {
+		let hours = parseInt(clock[1], 10);
+		const minutes = clock[2] ? parseInt(clock[2], 10) : 0;
+		const meridiem = clock[3]?.toLowerCase();
+		if (meridiem === 'p' && hours < 12) hours += 12;
+		if (meridiem === 'a' && hours === 12) hours = 0;
+		if (hours < 24 && minutes < 60) {
+			return hours * 60 + minutes;
 		}
-
-		// Sort by total count (most common associations first)
-		return associations.sort((a, b) => b.totalCount - a.totalCount);
 	}
+
+	const word = text.toLowerCase().match(/\b(midnight|breakfast|morning|brunch|noon|lunch|afternoon|snack|dinner|supper|evening|night)\b/);
+	return word ? TIME_OF_DAY_MINUTES[word[1]] : null;
 }
 
-class HealthLogResultsModal extends Modal {
-	entries: HealthEntry[];
-	associations: TemporalAssociation[];
+/**
+ * Interprets an onset phrase. "30min later" and "the next day" become a lag
+ * relative to the trigger; "after dinner" and "next morning" become a time of
+ * day, optionally on the following day. Vague phrases ("later") resolve to
+ * neither but still imply the symptom followed the trigger.
+ */
+function parseOnset(onset?: string): { dayOffset: number; minuteOfDay?: number; lagMinutes?: number } | null {
+	if (!onset) return null;
+	const text = onset.toLowerCase();
+	const dayOffset = /\bnext\s+(?:day|morning|afternoon|evening|night)\b|\btomorrow\b|\bovernight\b/.test(text) ? 1 : 0;
+
+	const duration = text.match(/\b(\d+(?:\.\d+)?|half an|an?|one|two|three|few|couple(?: of)?)\s*-?\s*(min(?:ute)?s?|h(?:ou)?rs?|hours?|days?)\b/);
+	if (duration) {
+		const amount = NUMBER_WORDS[duration[1]] ?? parseFloat(duration[1]);
+		const unit = duration[2];
+		const minutes = unit.startsWith('d') ? amount * DAY_MINUTES : unit.startsWith('m') ? amount : amount * 60;
+		return { dayOffset: 0, lagMinutes: minutes };
+	}
+
+	const minuteOfDay = parseTimeOfDay(text);
+	if (minuteOfDay !== null) {
+		return { dayOffset, minuteOfDay };
+	}
+	if (dayOffset) {
+		return { dayOffset: 0, lagMinutes: DAY_MINUTES };
+	}
+	if (/\b(?:immediately|right after|right away)\b/.test(text)) {
+		return { dayOffset: 0, lagMinutes: 0 };
+	}
+	return { dayOffset: 0 };
+}
+
+function summarizeLags(lags: number[]): LagStats | undefined {
+	if (lags.length === 0) return undefined;
+	const sorted = [...lags].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return {
+		median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+		min: sorted[0],
+		max: sorted[sorted.length - 1],
+		samples: sorted.length
+	};
+}
+
+function formatMinutes(minutes: number): string {
+	if (minutes < 60) return `${Math.round(minutes)}min`;
+	if (minutes < DAY_MINUTES) return `${parseFloat((minutes / 60).toFixed(1))}h`;
+	return `${parseFloat((minutes / DAY_MINUTES).toFixed(1))}d`;
+}
+
+// Words that end in "s" but are already singular (or have no useful singular)
+const SINGULAR_EXCEPTIONS = new Set([
+	'hummus', 'couscous', 'molasses', 'asparagus', 'fries', 'hives', 'diabetes',
+	'lens', 'series', 'species', 'news', 'swiss', 'gas', 'oats', 'grits', 'sweets'
+]);
+
+function singularize(word: string): string {
+	if (word.length <= 3 || SINGULAR_EXCEPTIONS.has(word) || /(?:ss|us|is)$/.test(word)) return word;
+	if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + 'y';
+	if (/(?:ch|sh|x|z)es$/.test(word) || /[^aeiou]oes$/.test(word)) return word.slice(0, -2);
+	if (word.endsWith('s')) return word.slice(0, -1);
+	return word;
+}
+
+/**
+ * Parses the user-editable alias table ("alias = canonical", one per line,
+ * "#" starts a comment) into a lookup keyed by normalized alias.
+ */
+function parseAliasTable(table: string): Map<string, string> {
+	const aliases = new Map<string, string>();
+	for (const line of table.split('\n')) {
+		const trimmed = line.replace(/#.*$/, '').trim();
+		const separator = trimmed.indexOf('=');
+		if (separator === -1) continue;
+		const alias = cleanItemName(trimmed.slice(0, separator));
+		const canonical = trimmed.slice(separator + 1).trim().toLowerCase();
+		if (alias && canonical) {
+			aliases.set(alias, canonical);
+		}
+	}
+	return aliases;
+}
+
+/**
+ * Lower-cases a raw item phrase and strips the parts that shouldn't split
+ * trigger keys: verbs, quantities, parentheticals, times and severity words.
+ */
+function cleanItemName(raw: string): string {
+	let text = raw.toLowerCase()
+		.replace(/\([^)]*\)/g, ' ')
+		.replace(FOOD_VERBS, '')
+		.replace(SUPPLEMENT_VERBS, '')
+		.replace(/^(?:felt|feeling|feel|had|have|got|experienced)\s+/, '');
+
+	for (const pattern of [...TIME_PATTERNS, ...ONSET_PATTERNS]) {
+		text = text.replace(pattern, ' ');
+	}
+
+	text = text
+		.replace(new RegExp(QUANTITY_PATTERN.source, 'gi'), ' ')
+		.replace(/\b\d+(?:\.\d+)?\s*-?\s*(?:min(?:ute)?s?|h(?:ou)?rs?|hours?|km|mi|miles?)\b/g, ' ')
+		.replace(new RegExp(SEVERITY_PATTERN.source, 'gi'), ' ')
+		.replace(/^\s*(?:a bit of|a bit|a little|some|an?|the|\d+)\s+/, '')
+		.replace(/\b(?:for|of)\s*$/, '')
+		.replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+
+	const words = text.split(' ');
+	words[words.length - 1] = singularize(words[words.length - 1]);
+	return words.join(' ').trim();
+}
+
+/**
+ * Name used to group an item in analysis: the canonical name when the item
+ * has been normalized, otherwise the raw field for its category.
+ */
+function itemName(item: TimedItem): string {
+	return item.canonical || item.name || item.activity || item.description || 'unknown';
+}
+
+function summarizeEntries(entries: HealthEntry[]): EntrySummary {
+	const dates = entries.map(e => e.date).sort();
+	return {
+		entries: entries.length,
+		firstDate: dates[0],
+		lastDate: dates[dates.length - 1],
+		uniqueFoods: new Set(entries.flatMap(e => e.parsed.foods.map(itemName))).size,
+		uniqueSupplements: new Set(entries.flatMap(e => e.parsed.supplements.map(itemName))).size,
+		uniqueMedications: new Set(entries.flatMap(e => e.parsed.medications.map(itemName))).size,
+		uniqueExercise: new Set(entries.flatMap(e => e.parsed.exercise.map(itemName))).size,
+		uniqueBehaviors: new Set(entries.flatMap(e => e.parsed.behaviors.map(itemName))).size,
+		uniqueSymptoms: new Set(entries.flatMap(e => e.parsed.symptoms.map(itemName))).size,
+		symptomFreeDays: new Set(entries
+			.filter(e => e.parsed.symptoms.length === 0 && (e.parsed.positiveOutcomes.length > 0
+				|| e.parsed.absentSymptoms.some(coversAllSymptoms)))
+			.map(e => e.date)).size
+	};
+}
+
+function formatCovariates(covariates?: CovariateComparison[]): string {
+	return (covariates || [])
+		.map(c => `${c.name} ${c.exposedMean.toFixed(1)} vs ${c.unexposedMean.toFixed(1)}`)
+		.join('; ');
+}
+
+function formatAdjustedEffect(assoc: TemporalAssociation): string {
+	if (assoc.adjustedOddsRatio === undefined) return '';
+	const [low, high] = assoc.adjustedConfidence!;
+	return `OR ${assoc.adjustedOddsRatio.toFixed(2)} (${low.toFixed(2)}–${high.toFixed(2)}), p = ${formatPValue(assoc.adjustedPValue!)}`;
+}
+
+function escapeCsv(value: string | number): string {
+	const text = String(value);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeTableCell(value: string): string {
+	return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+interface LLMProvider {
+	/** Sends a single prompt and returns the raw text of the model's reply */
+	generate(prompt: string, signal?: AbortSignal): Promise<string>;
+	/** Checks the server is reachable and the model exists; resolves to a status message */
+	testConnection(): Promise<string>;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutSeconds: number, signal?: AbortSignal): Promise<Response> {
+	// One controller covers both the per-request timeout and caller cancellation
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+	const onAbort = () => controller.abort();
+	signal?.addEventListener('abort', onAbort);
+	if (signal?.aborted) controller.abort();
+	try {
+		return await fetch(url, { ...init, signal: controller.signal });
+	} catch (error) {
+		if (signal?.aborted) {
+			throw new Error('Request cancelled');
+		}
+		if (controller.signal.aborted) {
+			throw new Error(`Request to ${url} timed out after ${timeoutSeconds}s`);
+		}
+		throw error;
+	} finally {
+		clearTimeout(timer);
+		signal?.removeEventListener('abort', onAbort);
+	}
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight. Workers stop
+ * picking up new items once `signal` is aborted.
+ */
+async function runWithConcurrency<T>(
+	items: T[], limit: number, signal: AbortSignal,
+	worker: (item: T) => Promise<void>
+): Promise<void> {
+	let next = 0;
+	const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+		while (next < items.length && !signal.aborted) {
+			await worker(items[next++]);
+		}
+	});
+	await Promise.all(runners);
+}
+
+/**
+ * Returns a function that resolves when the next request may start, spacing
+ * request starts evenly to stay under `perMinute` (0 disables the limit).
+ */
+function createRateLimiter(perMinute: number): (signal: AbortSignal) => Promise<void> {
+	const interval = perMinute > 0 ? 60000 / perMinute : 0;
+	let nextStart = 0;
+	return (signal: AbortSignal) => {
+		const now = Date.now();
+		const wait = Math.max(0, nextStart - now);
+		nextStart = Math.max(now, nextStart) + interval;
+		if (wait === 0) return Promise.resolve();
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(new Error('Request cancelled'));
+			};
+			const timer = setTimeout(() => {
+				signal.removeEventListener('abort', onAbort);
+				resolve();
+			}, wait);
+			signal.addEventListener('abort', onAbort, { once: true });
+		});
+	};
+}
+
+function trimTrailingSlash(url: string): string {
+	return url.replace(/\/+$/, '');
+}
+
+class OllamaGenerateProvider implements LLMProvider {
+	constructor(private host: string, private model: string, private timeoutSeconds: number) {}
+
+	async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+		const response = await fetchWithTimeout(`${trimTrailingSlash(this.host)}/api/generate`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+			},
+			body: JSON.stringify({
+				model: this.model,
+				prompt: prompt,
+				stream: false,
+				format: 'json'
+			})
+		}, this.timeoutSeconds, signal);
+
+		if (!response.ok) {
+			throw new Error(`Ollama API error: ${response.statusText}`);
+		}
+
+		const data = await response.json();
+		return data.response;
+	}
+
+	testConnection(): Promise<string> {
+		return testOllamaConnection(this.host, this.model, this.timeoutSeconds);
+	}
+}
+
+class OllamaChatProvider implements LLMProvider {
+	constructor(private host: string, private model: string, private timeoutSeconds: number) {}
+
+	async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+		const response = await fetchWithTimeout(`${trimTrailingSlash(this.host)}/api/chat`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+			},
+			body: JSON.stringify({
+				model: this.model,
+				messages: [{ role: 'user', content: prompt }],
+				stream: false,
+				format: 'json'
+			})
+		}, this.timeoutSeconds, signal);
+
+		if (!response.ok) {
+			throw new Error(`Ollama chat API error: ${response.statusText}`);
+		}
+
+		const data = await response.json();
+		return data.message?.content ?? '';
+	}
+
+	testConnection(): Promise<string> {
+		return testOllamaConnection(this.host, this.model, this.timeoutSeconds);
+	}
+}
+
+async function testOllamaConnection(host: string, model: string, timeoutSeconds: number): Promise<string> {
+	const response = await fetchWithTimeout(`${trimTrailingSlash(host)}/api/tags`, { method: 'GET' }, timeoutSeconds);
+	if (!response.ok) {
+		throw new Error(`Ollama API error: ${response.statusText}`);
+	}
+	const data = await response.json();
+	const models: string[] = (data.models || []).map((m: { name: string }) => m.name);
+	// Ollama reports "llama3.2:latest" for a model requested as "llama3.2"
+	const found = models.some(name => name === model || name === `${model}:latest`);
+	return found
+		? `Connected to Ollama; model "${model}" is available.`
+		: `Connected to Ollama, but model "${model}" is not installed. Run: ollama pull ${model}`;
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+	constructor(private baseUrl: string, private model: string, private apiKey: string, private timeoutSeconds: number) {}
+
+	get apiRoot(): string {
+		// Accept both "http://host:port" and "http://host:port/v1"
+		const base = trimTrailingSlash(this.baseUrl);
+		return base.endsWith('/v1') ? base : `${base}/v1`;
+	}
+
+	get headers(): Record<string, string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.apiKey) {
+			headers['Authorization'] = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+		const response = await fetchWithTimeout(`${this.apiRoot}/chat/completions`, {
+			method: 'POST',
+			headers: this.headers,
+			body: JSON.stringify({
+				model: this.model,
+				messages: [{ role: 'user', content: prompt }],
+				temperature: 0,
+				stream: false
+			})
+		}, this.timeoutSeconds, signal);
+
+		if (!response.ok) {
+			throw new Error(`OpenAI-compatible API error: ${response.statusText}`);
+		}
+
+		const data = await response.json();
+		return data.choices?.[0]?.message?.content ?? '';
+	}
+
+	async testConnection(): Promise<string> {
+		const response = await fetchWithTimeout(`${this.apiRoot}/models`, {
+			method: 'GET',
+			headers: this.headers
+		}, this.timeoutSeconds);
+		if (!response.ok) {
+			throw new Error(`OpenAI-compatible API error: ${response.statusText}`);
+		}
+		const data = await response.json();
+		const models: string[] = (data.data || []).map((m: { id: string }) => m.id);
+		if (!this.model || models.includes(this.model)) {
+			return `Connected; ${models.length} model(s) available.`;
+		}
+		return `Connected, but model "${this.model}" was not listed. Available: ${models.join(', ') || 'none'}`;
+	}
+}
+
+function createLLMProvider(settings: HealthLogSettings): LLMProvider {
+	switch (settings.llmProvider) {
+		case 'ollama-chat':
+			return new OllamaChatProvider(settings.ollamaChatHost, settings.ollamaChatModel, settings.ollamaChatTimeoutSeconds);
+		case 'openai-compatible':
+			return new OpenAICompatibleProvider(settings.openAIBaseUrl, settings.openAIModel, settings.openAIApiKey, settings.openAITimeoutSeconds);
+		default:
+			return new OllamaGenerateProvider(settings.ollamaHost, settings.ollamaModel, settings.ollamaTimeoutSeconds);
+	}
+}
+
+/**
+ * Pulls the JSON object out of a model reply. Chat-style servers often wrap
+ * it in a ```json fence or add a sentence before it.
+ */
+function extractJsonObject(text: string): string {
+	const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+	const body = fenced ? fenced[1] : text;
+	const start = body.indexOf('{');
+	const end = body.lastIndexOf('}');
+	return start !== -1 && end > start ? body.slice(start, end + 1) : body;
+}
+
+// Fields the LLM may return for each category; the first is required
+// Allowed fields per category; at least one of `required` must be present
+const ITEM_SCHEMA: Record<keyof ParsedHealthData, { fields: string[]; required: string[] }> = {
+	foods: { fields: ['name', 'dose', 'time'], required: ['name'] },
+	supplements: { fields: ['name', 'dose', 'time'], required: ['name'] },
+	medications: { fields: ['name', 'dose', 'time'], required: ['name'] },
+	exercise: { fields: ['activity', 'duration', 'time'], required: ['activity'] },
+	symptoms: { fields: ['description', 'severity', 'time', 'onset'], required: ['description'] },
+	sleep: { fields: ['duration', 'quality', 'time'], required: ['duration', 'quality'] },
+	mood: { fields: ['name', 'level', 'time'], required: ['name'] },
+	hydration: { fields: ['name', 'dose', 'time'], required: ['name'] },
+	behaviors: { fields: ['description', 'duration', 'time'], required: ['description'] },
+	absentSymptoms: { fields: ['description', 'time'], required: ['description'] },
+	positiveOutcomes: { fields: ['description', 'time'], required: ['description'] }
+};
+
+const CATEGORY_LABELS: Record<keyof ParsedHealthData, string> = {
+	foods: 'Foods',
+	supplements: 'Supplements',
+	medications: 'Medications',
+	exercise: 'Exercise',
+	symptoms: 'Symptoms',
+	sleep: 'Sleep',
+	mood: 'Mood and stress',
+	hydration: 'Hydration',
+	behaviors: 'Behaviors',
+	absentSymptoms: 'Absent symptoms',
+	positiveOutcomes: 'Positive outcomes'
+};
+
+/**
+ * Key a parsed item is matched by when applying overrides: its raw name,
+ * lower-cased. Sleep items have no name and fall back to duration or quality.
+ */
+function itemKey(item: TimedItem): string {
+	return (item.name || item.activity || item.description || item.duration || item.quality || '').trim().toLowerCase();
+}
+
+/** Applies review corrections on top of a parse, without modifying it */
+function applyOverrides(parsed: ParsedHealthData, overrides: ItemOverride[]): ParsedHealthData {
+	const result = { ...emptyParsedData(), ...parsed };
+	for (const category of Object.keys(CATEGORY_LABELS) as Array<keyof ParsedHealthData>) {
+		const corrections = overrides.filter(override => override.category === category);
+		if (corrections.length === 0) continue;
+		result[category] = [
+			...result[category].flatMap(item => {
+				const correction = corrections.find(override => override.match === itemKey(item));
+				if (!correction) return [item];
+				return correction.item ? [correction.item] : [];
+			}),
+			...corrections
+				.filter(override => override.match === undefined && override.item)
+				.map(override => override.item!)
+		];
+	}
+	return result;
+}
+
+/** One-line rendering of a raw item, e.g. "coffee · 2 cups · 9am" */
+function formatItem(item: TimedItem): string {
+	return [item.name, item.activity, item.description, item.dose, item.duration, item.quality, item.level,
+		item.severity, item.time, item.onset]
+		.filter(Boolean)
+		.join(' · ');
+}
+
+class LLMOutputError extends Error {
+	issues: string[];
+
+	constructor(issues: string[]) {
+		super(`Invalid LLM output: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; ...' : ''}`);
+		this.name = 'LLMOutputError';
+		this.issues = issues;
+	}
+}
+
+/**
+ * Checks a decoded LLM reply against the ParsedHealthData/TimedItem shape.
+ * Returns the list of problems; an empty list means the value is valid.
+ */
+function validateParsedHealthData(value: unknown): string[] {
+	const issues: string[] = [];
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return ['response is not a JSON object'];
+	}
+
+	const record = value as Record<string, unknown>;
+	for (const key of Object.keys(record)) {
+		if (!(key in ITEM_SCHEMA)) {
+			issues.push(`unexpected category "${key}"`);
+		}
+	}
+
+	for (const [category, { fields, required }] of Object.entries(ITEM_SCHEMA)) {
+		const items = record[category];
+		if (!Array.isArray(items)) {
+			issues.push(items === undefined
+				? `missing "${category}" array`
+				: `"${category}" must be an array, got ${typeof items}`);
+			continue;
+		}
+
+		items.forEach((item, index) => {
+			const path = `${category}[${index}]`;
+			if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+				issues.push(`${path} must be an object`);
+				return;
+			}
+			for (const [field, fieldValue] of Object.entries(item)) {
+				if (!fields.includes(field)) {
+					issues.push(`${path} has unexpected field "${field}" (allowed: ${fields.join(', ')})`);
+				} else if (typeof fieldValue !== 'string') {
+					issues.push(`${path}.${field} must be a string`);
+				}
+			}
+			const present = required.some(field => {
+				const fieldValue = (item as Record<string, unknown>)[field];
+				return typeof fieldValue === 'string' && fieldValue.trim().length > 0;
+			});
+			if (!present) {
+				issues.push(`${path} is missing "${required.join('" or "')}"`);
+			}
+		});
+	}
+
+	return issues;
+}
+
+/**
+ * 53-bit string hash (cyrb53). Not cryptographic; only used to detect changed
+ * Health log sections without keeping their text in the cache.
+ */
+function hashString(text: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Upgrades a cache file from an older format instead of discarding it.
+ * Unknown or future versions start fresh.
+ */
+function migrateCache(data: CacheData): CacheData {
+	if (data.version === CACHE_VERSION) {
+		return data;
+	}
+	if (data.version === '2.0.0') {
+		// 2.x entries don't record which parser produced them, so they stay
+		// viewable in review but are re-parsed on the next run
+		const entries: Record<string, CachedEntry> = {};
+		for (const [path, entry] of Object.entries(data.entries || {})) {
+			entries[path] = {
+				fileName: entry.fileName,
+				parser: LEGACY_PARSER_SIGNATURE,
+				parsed: entry.parsed,
+				status: entry.status,
+				error: entry.error
+			};
+		}
+		console.log(`Migrated ${Object.keys(entries).length} cache entries from 2.0.0 to ${CACHE_VERSION}`);
+		return { version: CACHE_VERSION, entries };
+	}
+	console.log(`Unknown cache version ${data.version}, resetting cache`);
+	return { version: CACHE_VERSION, entries: {} };
+}
+
+function logFactorial(n: number): number {
+	let result = 0;
+	for (let i = 2; i <= n; i++) {
+		result += Math.log(i);
+	}
+	return result;
+}
+
+/**
+ * One-sided Fisher's exact test for a 2x2 table
+ *   [a b]   a = trigger & symptom,    b = trigger & no symptom
+ *   [c d]   c = no trigger & symptom, d = neither
+ * Returns P(X >= a) under the hypergeometric null, i.e. the chance of seeing at
+ * least this much co-occurrence if trigger and symptom were independent.
+ */
+function fisherExactTest(a: number, b: number, c: number, d: number): number {
+	const row1 = a + b;
+	const col1 = a + c;
+	const n = a + b + c + d;
+	const logDenominator = logFactorial(n) - logFactorial(row1) - logFactorial(n - row1)
+		- logFactorial(col1) - logFactorial(n - col1);
+	const maxA = Math.min(row1, col1);
+
+	let p = 0;
+	for (let x = a; x <= maxA; x++) {
+		const logP = -logDenominator
+			- logFactorial(x) - logFactorial(row1 - x)
+			- logFactorial(col1 - x) - logFactorial(n - row1 - col1 + x);
+		p += Math.exp(logP);
+	}
+	return Math.min(1, p);
+}
+
+// An explicit "no headache today" counts as this many days of silence against an association
+const ABSENCE_WEIGHT = 2;
+
+// Multivariable model: an L2 penalty keeps coefficients finite for rare and
+// collinear triggers; only the most frequently logged triggers are modelled
+const MODEL_PENALTY = 1;
+const MAX_MODEL_TERMS = 60;
+
+/** Inverts a square matrix by Gauss-Jordan elimination, or returns null when it is singular */
+function invertMatrix(matrix: number[][]): number[][] | null {
+	const size = matrix.length;
+	const work = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+	for (let col = 0; col < size; col++) {
+		let pivot = col;
+		for (let row = col + 1; row < size; row++) {
+			if (Math.abs(work[row][col]) > Math.abs(work[pivot][col])) pivot = row;
+		}
+		if (Math.abs(work[pivot][col]) < 1e-12) return null;
+		[work[col], work[pivot]] = [work[pivot], work[col]];
+		const scale = work[col][col];
+		for (let j = 0; j < 2 * size; j++) work[col][j] /= scale;
+		for (let row = 0; row < size; row++) {
+			if (row === col || work[row][col] === 0) continue;
+			const factor = work[row][col];
+			for (let j = 0; j < 2 * size; j++) work[row][j] -= factor * work[col][j];
+		}
+	}
+	return work.map(row => row.slice(size));
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7) */
+function normalCdf(z: number): number {
+	const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+	const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+		* Math.exp(-z * z / 2);
+	return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * L2-penalized logistic regression on binary features, fitted with Newton's
+ * method. Each row lists the indexes of the features present on that day.
+ * Index 0 of the result is the unpenalized intercept, feature i is at i + 1.
+ */
+function fitLogisticRegression(
+	rows: number[][], outcomes: boolean[], featureCount: number, penalty: number
+): { coefficients: number[]; standardErrors: number[] } | null {
+	const size = featureCount + 1;
+	let coefficients = new Array<number>(size).fill(0);
+	let covariance: number[][] | null = null;
+
+	for (let iteration = 0; iteration < 50; iteration++) {
+		const gradient = coefficients.map((value, i) => (i === 0 ? 0 : -penalty * value));
+		const hessian = coefficients.map((_, i) => coefficients.map((__, j) => (i === j && i > 0 ? penalty : 0)));
+		rows.forEach((features, index) => {
+			const active = [0, ...features.map(feature => feature + 1)];
+			const eta = active.reduce((sum, i) => sum + coefficients[i], 0);
+			const p = 1 / (1 + Math.exp(-eta));
+			const residual = (outcomes[index] ? 1 : 0) - p;
+			for (const i of active) {
+				gradient[i] += residual;
+				for (const j of active) hessian[i][j] += p * (1 - p);
+			}
+		});
+
+		covariance = invertMatrix(hessian);
+		if (!covariance) return null;
+		const step = covariance.map(row => row.reduce((sum, value, j) => sum + value * gradient[j], 0));
+		coefficients = coefficients.map((value, i) => value + step[i]);
+		if (coefficients.some(value => !isFinite(value))) return null;
+		if (Math.max(...step.map(Math.abs)) < 1e-6) break;
+	}
+
+	return {
+		coefficients,
+		standardErrors: covariance!.map((row, i) => Math.sqrt(Math.max(0, row[i])))
+	};
+}
+
+function formatPValue(p: number): string {
+	return p < 0.001 ? '< 0.001' : p.toFixed(3);
+}
+
+function compareAssociations(key: AssociationSortKey) {
+	return (a: TemporalAssociation, b: TemporalAssociation): number => {
+		switch (key) {
+			case 'lift':
+				return b.lift - a.lift || b.totalCount - a.totalCount;
+			case 'relativeRisk':
+				return b.relativeRisk - a.relativeRisk || b.totalCount - a.totalCount;
+			case 'pValue':
+				return a.pValue - b.pValue || b.totalCount - a.totalCount;
+			case 'severity':
+				return (b.severityLift ?? 0) - (a.severityLift ?? 0) || b.totalCount - a.totalCount;
+			case 'adjusted':
+				return (b.adjustedOddsRatio ?? 0) - (a.adjustedOddsRatio ?? 0) || a.pValue - b.pValue;
+			default:
+				return b.totalCount - a.totalCount || a.pValue - b.pValue;
+		}
+	};
+}
+
+const QUERY_SORT_KEYS: Record<string, AssociationSortKey> = {
+	count: 'count',
+	lift: 'lift',
+	relativerisk: 'relativeRisk',
+	rr: 'relativeRisk',
+	pvalue: 'pValue',
+	p: 'pValue',
+	severity: 'severity',
+	adjusted: 'adjusted'
+};
+
+const QUERY_TRIGGER_TYPES: TriggerType[] = ['food', 'supplement', 'medication', 'exercise', 'behavior', 'sleep', 'mood', 'hydration'];
+
+/**
+ * Reads the `key: value` options of a `health-log` query, one per line or
+ * separated by semicolons. Dates are YYYY-MM-DD or "today"; "days: 30"
+ * covers the last 30 days.
+ */
+function parseHealthLogQuery(source: string, defaultSort: AssociationSortKey): { query: HealthLogQuery; errors: string[] } {
+	const query: HealthLogQuery = { minCount: 0, sort: defaultSort, output: 'table', limit: 10 };
+	const errors: string[] = [];
+	const today = moment().format('YYYY-MM-DD');
+	const parseDate = (key: string, value: string): string | undefined => {
+		const date = value.toLowerCase() === 'today' ? today : value;
+		if (parseNoteDay(date) === null) {
+			errors.push(`${key} must be a YYYY-MM-DD date or "today"`);
+			return undefined;
+		}
+		return date;
+	};
+	const parseCount = (key: string, value: string, min: number): number | undefined => {
+		const number = Number(value);
+		if (!Number.isInteger(number) || number < min) {
+			errors.push(`${key} must be a whole number of at least ${min}`);
+			return undefined;
+		}
+		return number;
+	};
+
+	for (const rawLine of source.split(/[\n;]/)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) continue;
+		const match = line.match(/^([\w-]+)\s*[:=]\s*(.*)$/);
+		if (!match) {
+			errors.push(`Can't read "${line}"; use "option: value"`);
+			continue;
+		}
+		const key = match[1].toLowerCase();
+		const value = match[2].trim();
+		switch (key) {
+			case 'trigger':
+				query.trigger = value.toLowerCase();
+				break;
+			case 'type':
+				if (QUERY_TRIGGER_TYPES.includes(value.toLowerCase() as TriggerType)) {
+					query.triggerType = value.toLowerCase() as TriggerType;
+				} else {
+					errors.push(`type must be one of ${QUERY_TRIGGER_TYPES.join(', ')}`);
+				}
+				break;
+			case 'symptom':
+				query.symptom = value.toLowerCase();
+				break;
+			case 'from':
+				query.from = parseDate(key, value);
+				break;
+			case 'to':
+				query.to = parseDate(key, value);
+				break;
+			case 'days': {
+				const days = parseCount(key, value, 1);
+				if (days !== undefined) {
+					query.from = moment().subtract(days - 1, 'days').format('YYYY-MM-DD');
+					query.to = today;
+				}
+				break;
+			}
+			case 'min-count':
+			case 'mincount':
+				query.minCount = parseCount(key, value, 0) ?? query.minCount;
+				break;
+			case 'sort': {
+				const sort = QUERY_SORT_KEYS[value.toLowerCase().replace(/[\s_-]/g, '')];
+				if (sort) {
+					query.sort = sort;
+				} else {
+					errors.push('sort must be count, lift, relative-risk, p-value, severity or adjusted');
+				}
+				break;
+			}
+			case 'output':
+				if (value === 'table' || value === 'list' || value === 'chart') {
+					query.output = value;
+				} else {
+					errors.push('output must be table, list or chart');
+				}
+				break;
+			case 'limit':
+				query.limit = parseCount(key, value, 1) ?? query.limit;
+				break;
+			default:
+				errors.push(`Unknown option "${match[1]}"`);
+		}
+	}
+	return { query, errors };
+}
+
+function splitList(text: string): string[] {
+	return text.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Whether a trigger name belongs to an experiment's trigger group. Group
+ * entries match whole words, so "cheese" also covers "feta cheese".
+ */
+function matchesTriggerGroup(name: string, group: string[]): string | null {
+	const lower = name.toLowerCase();
+	return group.find(member => {
+		const escaped = member.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		return new RegExp(`(?:^|\\W)${escaped}(?:$|\\W)`).test(lower);
+	}) || null;
+}
+
+/** Whether the baseline and elimination periods both have valid, ordered dates. */
+function experimentDatesComplete(experiment: EliminationExperiment): boolean {
+	return ([
+		[experiment.baselineStart, experiment.baselineEnd],
+		[experiment.eliminationStart, experiment.eliminationEnd]
+	] as Array<[string, string]>).every(([start, end]) => {
+		const from = parseNoteDay(start);
+		const to = parseNoteDay(end);
+		return from !== null && to !== null && from <= to;
+	});
+}
+
+function experimentSummary(stats: { days: number; rate: number; meanSeverity?: number }): string {
+	return `${(stats.rate * 100).toFixed(0)}% (${stats.days} d)`
+		+ (stats.meanSeverity !== undefined ? `, severity ${stats.meanSeverity.toFixed(1)}` : '');
+}
+
+// Charts are plain SVG built from the parsed entries, so nothing is fetched
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const HEATMAP_MAX_WEEKS = 53;
+
+function weekdayIndex(day: number): number {
+	// Day 0 (1970-01-01) was a Thursday; Monday is 0
+	return (day + 3) % 7;
+}
+
+function createChartSvg(containerEl: HTMLElement, width: number, height: number, label: string): SVGSVGElement {
+	return containerEl.createSvg('svg', {
+		cls: 'health-log-chart',
+		// Natural pixel size, scaled down by CSS in narrow panes
+		attr: { width, height, viewBox: `0 0 ${width} ${height}`, role: 'img', 'aria-label': label }
+	});
+}
+
+function addSvgTitle(el: SVGElement, text: string) {
+	el.createSvg('title').textContent = text;
+}
+
+/**
+ * Per-day symptom counts for a calendar heatmap: how often the symptom was
+ * logged on each dated note, plus the set of days that have any note.
+ */
+function symptomDailyCounts(entries: HealthEntry[], symptom: string): { counts: Map<number, number>; logged: Set<number> } {
+	const counts = new Map<number, number>();
+	const logged = new Set<number>();
+	for (const entry of entries) {
+		if (entry.day === null) continue;
+		logged.add(entry.day);
+		const count = entry.parsed.symptoms.filter(item => itemName(item) === symptom).length;
+		if (count > 0) {
+			counts.set(entry.day, (counts.get(entry.day) || 0) + count);
+		}
+	}
+	return { counts, logged };
+}
+
+/**
+ * GitHub-style calendar: one column per week, one row per weekday, shaded by
+ * how often the symptom was logged. Days without a note are drawn hollow.
+ * Below it, the share of logged days with the symptom for each weekday.
+ */
+function renderCalendarHeatmap(containerEl: HTMLElement, counts: Map<number, number>, logged: Set<number>, symptom: string) {
+	if (logged.size === 0) {
+		containerEl.createEl('p', { cls: 'health-log-muted', text: 'No dated notes to chart.' });
+		return;
+	}
+
+	const cell = 11;
+	const gap = 2;
+	const left = 28;
+	const top = 14;
+	const lastDay = Math.max(...logged);
+	const firstLogged = Math.min(...logged);
+	let start = firstLogged - weekdayIndex(firstLogged);
+	const maxStart = lastDay - weekdayIndex(lastDay) - (HEATMAP_MAX_WEEKS - 1) * 7;
+	start = Math.max(start, maxStart);
+	const weeks = Math.floor((lastDay - start) / 7) + 1;
+
+	const svg = createChartSvg(containerEl, left + weeks * (cell + gap), top + 7 * (cell + gap), `Calendar of ${symptom}`);
+	[0, 2, 4].forEach(row => {
+		svg.createSvg('text', {
+			cls: 'health-log-chart-label',
+			attr: { x: 0, y: top + row * (cell + gap) + cell - 2 }
+		}).textContent = WEEKDAY_LABELS[row];
+	});
+
+	let lastMonth = -1;
+	for (let day = start; day <= lastDay; day++) {
+		const week = Math.floor((day - start) / 7);
+		const x = left + week * (cell + gap);
+		const date = dayToIsoDate(day);
+
+		const month = parseInt(date.slice(5, 7), 10) - 1;
+		if (weekdayIndex(day) === 0 && month !== lastMonth) {
+			svg.createSvg('text', { cls: 'health-log-chart-label', attr: { x, y: top - 4 } }).textContent = MONTH_LABELS[month];
+			lastMonth = month;
+		}
+
+		const count = counts.get(day) || 0;
+		const level = logged.has(day) ? Math.min(4, count) : -1;
+		const rect = svg.createSvg('rect', {
+			cls: ['health-log-heat', level < 0 ? 'is-missing' : `level-${level}`],
+			attr: { x, y: top + weekdayIndex(day) * (cell + gap), width: cell, height: cell, rx: 2 }
+		});
+		addSvgTitle(rect, level < 0 ? `${date}: no note` : `${date}: ${count}× ${symptom}`);
+	}
+
+	// Weekly cycles: symptom rate per weekday over logged days
+	const perWeekday = WEEKDAY_LABELS.map(() => ({ logged: 0, withSymptom: 0 }));
+	for (const day of logged) {
+		perWeekday[weekdayIndex(day)].logged++;
+		if (counts.has(day)) perWeekday[weekdayIndex(day)].withSymptom++;
+	}
+	const barWidth = 40;
+	const barHeight = 40;
+	const weekdaySvg = createChartSvg(containerEl, 7 * barWidth, barHeight + 26, `${symptom} by weekday`);
+	perWeekday.forEach((stats, index) => {
+		const rate = stats.logged > 0 ? stats.withSymptom / stats.logged : 0;
+		const height = Math.max(1, rate * barHeight);
+		const bar = weekdaySvg.createSvg('rect', {
+			cls: 'health-log-chart-bar',
+			attr: { x: index * barWidth + 6, y: 12 + barHeight - height, width: barWidth - 12, height }
+		});
+		addSvgTitle(bar, `${WEEKDAY_LABELS[index]}: ${stats.withSymptom}/${stats.logged} days`);
+		weekdaySvg.createSvg('text', {
+			cls: 'health-log-chart-label',
+			attr: { x: index * barWidth + barWidth / 2, y: 10, 'text-anchor': 'middle' }
+		}).textContent = `${Math.round(rate * 100)}%`;
+		weekdaySvg.createSvg('text', {
+			cls: 'health-log-chart-label',
+			attr: { x: index * barWidth + barWidth / 2, y: barHeight + 24, 'text-anchor': 'middle' }
+		}).textContent = WEEKDAY_LABELS[index];
+	});
+}
+
+/**
+ * Two lanes over the logged date range: trigger exposures on top, symptom
+ * occurrences below, with a line for each pair counted in the association.
+ */
+function renderExposureTimeline(
+	containerEl: HTMLElement, logged: number[], exposures: Set<number>, symptoms: Set<number>,
+	links: Array<[number, number]>, triggerName: string, symptom: string
+) {
+	if (logged.length === 0) return;
+
+	const width = 600;
+	const height = 78;
+	const left = 70;
+	const right = 10;
+	const triggerY = 18;
+	const symptomY = 50;
+	const first = Math.min(...logged);
+	const last = Math.max(...logged);
+	const span = Math.max(1, last - first);
+	const xOf = (day: number) => left + ((day - first) / span) * (width - left - right);
+
+	const svg = createChartSvg(containerEl, width, height, `${triggerName} exposures and ${symptom}`);
+	svg.createSvg('text', { cls: 'health-log-chart-label', attr: { x: 0, y: triggerY + 3 } }).textContent = triggerName.slice(0, 12);
+	svg.createSvg('text', { cls: 'health-log-chart-label', attr: { x: 0, y: symptomY + 3 } }).textContent = symptom.slice(0, 12);
+
+	for (const day of logged) {
+		svg.createSvg('line', {
+			cls: 'health-log-chart-tick',
+			attr: { x1: xOf(day), x2: xOf(day), y1: symptomY + 10, y2: symptomY + 14 }
+		});
+	}
+	for (const [triggerDay, symptomDay] of links) {
+		svg.createSvg('line', {
+			cls: 'health-log-chart-link',
+			attr: { x1: xOf(triggerDay), y1: triggerY, x2: xOf(symptomDay), y2: symptomY }
+		});
+	}
+	for (const day of exposures) {
+		const mark = svg.createSvg('circle', { cls: 'health-log-chart-exposure', attr: { cx: xOf(day), cy: triggerY, r: 4 } });
+		addSvgTitle(mark, `${dayToIsoDate(day)}: ${triggerName}`);
+	}
+	for (const day of symptoms) {
+		const mark = svg.createSvg('rect', {
+			cls: 'health-log-chart-symptom',
+			attr: { x: xOf(day) - 4, y: symptomY - 4, width: 8, height: 8 }
+		});
+		addSvgTitle(mark, `${dayToIsoDate(day)}: ${symptom}`);
+	}
+
+	svg.createSvg('text', { cls: 'health-log-chart-label', attr: { x: left, y: height - 2 } }).textContent = dayToIsoDate(first);
+	svg.createSvg('text', {
+		cls: 'health-log-chart-label',
+		attr: { x: width - right, y: height - 2, 'text-anchor': 'end' }
+	}).textContent = dayToIsoDate(last);
+}
+
+/** Histogram of resolved trigger → symptom lags across the lag window. */
+function renderLagHistogram(containerEl: HTMLElement, lags: number[], minLag: number, maxLag: number) {
+	if (lags.length === 0) {
+		containerEl.createEl('p', { cls: 'health-log-muted', text: 'No timed occurrences to chart lags.' });
+		return;
+	}
+
+	// Aim for roughly 12 bins of a readable size
+	const range = Math.max(60, maxLag - minLag);
+	const binSize = [30, 60, 120, 240, 360, 720, DAY_MINUTES].find(size => range / size <= 16) || DAY_MINUTES;
+	const binCount = Math.ceil(range / binSize);
+	const bins = new Array<number>(binCount).fill(0);
+	for (const lag of lags) {
+		bins[Math.min(binCount - 1, Math.max(0, Math.floor((lag - minLag) / binSize)))]++;
+	}
+
+	const width = 600;
+	const height = 120;
+	const left = 24;
+	const bottom = 16;
+	const chartHeight = height - bottom - 12;
+	const binWidth = (width - left) / binCount;
+	const maxCount = Math.max(...bins);
+
+	const svg = createChartSvg(containerEl, width, height, 'Lag histogram');
+	svg.createSvg('text', { cls: 'health-log-chart-label', attr: { x: 0, y: 20 } }).textContent = String(maxCount);
+	svg.createSvg('text', { cls: 'health-log-chart-label', attr: { x: 0, y: height - bottom } }).textContent = '0';
+
+	const labelEvery = Math.ceil(binCount / 8);
+	bins.forEach((count, index) => {
+		const from = minLag + index * binSize;
+		const barHeight = (count / maxCount) * chartHeight;
+		const bar = svg.createSvg('rect', {
+			cls: 'health-log-chart-bar',
+			attr: { x: left + index * binWidth + 1, y: height - bottom - barHeight, width: Math.max(1, binWidth - 2), height: barHeight }
+		});
+		addSvgTitle(bar, `${formatMinutes(from)}–${formatMinutes(from + binSize)}: ${count}`);
+		if (index % labelEvery === 0) {
+			svg.createSvg('text', {
+				cls: 'health-log-chart-label',
+				attr: { x: left + index * binWidth, y: height - 2 }
+			}).textContent = formatMinutes(from);
+		}
+	});
+}
+
+/** Exposure timeline and lag histogram for one association. */
+function renderAssociationCharts(containerEl: HTMLElement, plugin: HealthLogAnalyzerPlugin, entries: HealthEntry[], assoc: TemporalAssociation) {
+	const daysByDate = new Map(entries.map(entry => [entry.date, entry.day]));
+	const logged: number[] = [];
+	const exposures = new Set<number>();
+	for (const entry of entries) {
+		if (entry.day === null) continue;
+		logged.push(entry.day);
+		const exposed = plugin.entryTriggers(entry)
+			.some(trigger => trigger.type === assoc.trigger.type && itemName(trigger.item) === assoc.trigger.name);
+		if (exposed) exposures.add(entry.day);
+	}
+	const links: Array<[number, number]> = [];
+	for (const occ of assoc.occurrences) {
+		const triggerDay = daysByDate.get(occ.date);
+		const symptomDay = daysByDate.get(occ.symptomDate || occ.date);
+		if (typeof triggerDay === 'number' && typeof symptomDay === 'number') links.push([triggerDay, symptomDay]);
+	}
+
+	const charts = containerEl.createDiv({ cls: 'health-log-chart-section' });
+	charts.createEl('h5', { text: 'Exposures and symptoms' });
+	renderExposureTimeline(charts, logged, exposures, new Set(symptomDailyCounts(entries, assoc.symptom).counts.keys()),
+		links, assoc.trigger.name, assoc.symptom);
+	charts.createEl('h5', { text: 'Lag distribution' });
+	renderLagHistogram(charts,
+		assoc.occurrences.map(occ => occ.lagMinutes).filter((lag): lag is number => lag !== undefined),
+		plugin.settings.lagWindowMinHours * 60, plugin.settings.lagWindowMaxHours * 60);
+}
+
+export default class HealthLogAnalyzerPlugin extends Plugin {
+	settings: HealthLogSettings;
+	cache: CacheData;
+	// Review corrections by file path; kept apart from the cache so clearing it keeps them
+	overrides: Record<string, ItemOverride[]> = {};
+	aliases: Map<string, string> = new Map();
+	lastResults: AnalysisResults | null = null;
+	abortController: AbortController | null = null;
+	// Coalesces cache writes from bursts of vault events
+	requestCacheSave = debounce(() => this.saveCache(), 2000, true);
+	// In-memory index of parsed entries, keyed by file path
+	index: Map<string, HealthEntry> = new Map();
+	indexReady: boolean = false;
+	indexAbort: AbortController | null = null;
+	// Cancels single-note parses (edits, corrections, re-parses) on unload or a foreground run
+	incrementalAbort: AbortController = new AbortController();
+	pendingIndexPaths: Set<string> = new Set();
+	// Scored associations for embedded queries, by "from|to"; cleared whenever entries or settings change
+	associationCache: Map<string, TemporalAssociation[]> = new Map();
+	// Elimination reminders already shown, as "experiment id|note path|date"
+	warnedExposures: Set<string> = new Set();
+	indexFlush: Promise<void> = Promise.resolve();
+	// Set on unload so deferred startup work doesn't run against a torn-down plugin
+	unloaded: boolean = false;
+	requestIndexFlush = debounce(() => this.flushIndexQueue(), 2000, true);
+	requestIndexRebuild = debounce(() => this.rebuildIndex(), 3000, true);
+	indexSettingsKey: string | null = null; // Settings the index was built with
+	statusBarEl: HTMLElement | null = null;
+	// Public API for other plugins and scripts, see HealthLogApi
+	api: HealthLogApi = this.createApi();
+
+	async onload() {
+		await this.loadSettings();
+		await this.loadCache();
+		await this.loadOverrides();
+		await this.loadResults();
+
+		this.registerView(VIEW_TYPE_HEALTH_DASHBOARD, (leaf) => new HealthLogDashboardView(leaf, this));
+		this.registerView(VIEW_TYPE_HEALTH_REVIEW, (leaf) => new HealthLogReviewView(leaf, this));
+		this.registerEditorSuggest(new HealthLogSuggest(this.app, this));
+
+		// Live results in notes: ```health-log``` blocks and `health-log: ...` inline code
+		this.registerMarkdownCodeBlockProcessor('health-log', (source, el, ctx) => {
+			ctx.addChild(new HealthLogQueryRenderer(el, this, source, false));
+		});
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			for (const code of Array.from(el.querySelectorAll('code'))) {
+				if (code.parentElement?.tagName === 'PRE') continue;
+				const match = (code.textContent || '').match(/^health-log:\s*(.*)$/);
+				if (!match) continue;
+				const span = createSpan();
+				code.replaceWith(span);
+				ctx.addChild(new HealthLogQueryRenderer(span, this, match[1], true));
+			}
+		});
+
+		this.statusBarEl = this.addStatusBarItem();
+
+		// Keep the cache and index in step with vault changes
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.handleFileRename(file, oldPath);
+			this.index.delete(oldPath);
+			this.queueIndexUpdate(file);
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			this.handleFileDelete(file);
+			if (this.index.delete(file.path)) {
+				this.notifyIndexChanged();
+				this.updateStatusBar();
+			}
+		}));
+		this.app.workspace.onLayoutReady(() => {
+			if (this.pruneCache() > 0) {
+				this.requestCacheSave();
+			}
+			// Registered after layout ready so the initial vault load doesn't fire create events
+			this.registerEvent(this.app.vault.on('create', (file) => this.queueIndexUpdate(file)));
+			this.registerEvent(this.app.vault.on('modify', (file) => this.queueIndexUpdate(file)));
+			const backgroundIndexing = this.settings.backgroundIndexing;
+			const indexed = backgroundIndexing ? this.rebuildIndex() : Promise.resolve();
+			// Scheduled summaries wait for the index rather than starting a second parse,
+			// and are skipped if that rebuild was cancelled
+			indexed.then(async () => {
+				if (this.unloaded || (backgroundIndexing && !this.indexReady)) return;
+				await this.writeScheduledSummaries();
+			}).catch(error => console.error('Scheduled health summaries failed:', error));
+		});
+
+		// Add ribbon icon
+		this.addRibbonIcon('activity', 'Analyze Health Logs', () => {
+			this.analyzeHealthLogs();
+		});
+
+		// Add command
+		this.addCommand({
+			id: 'analyze-health-logs',
+			name: 'Analyze health logs',
+			callback: () => {
+				this.analyzeHealthLogs();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-health-log-dashboard',
+			name: 'Open analysis dashboard',
+			callback: () => {
+				this.activateDashboard();
+			}
+		});
+
+		this.addCommand({
+			id: 'export-analysis-markdown',
+			name: 'Export analysis as Markdown report',
+			callback: () => {
+				this.exportResults(['markdown']);
+			}
+		});
+
+		this.addCommand({
+			id: 'export-analysis-csv',
+			name: 'Export analysis as CSV',
+			callback: () => {
+				this.exportResults(['csv']);
+			}
+		});
+
+		this.addCommand({
+			id: 'export-analysis-json',
+			name: 'Export analysis as JSON',
+			callback: () => {
+				this.exportResults(['json']);
+			}
+		});
+
+		this.addCommand({
+			id: 'export-analysis-all',
+			name: 'Export analysis in all formats',
+			callback: () => {
+				this.exportResults(['markdown', 'csv', 'json']);
+			}
+		});
+
+		this.addCommand({
+			id: 'write-elimination-experiment-report',
+			name: 'Write elimination experiment report',
+			callback: () => {
+				// Without both required periods an empty date would stand for all time
+				const experiments = this.settings.experiments.filter(experimentDatesComplete);
+				if (this.settings.experiments.length === 0) {
+					new Notice('No elimination experiments defined. Add one in the plugin settings.');
+				} else if (experiments.length === 0) {
+					new Notice('Set the baseline and elimination dates of an experiment in the plugin settings first.');
+				} else if (experiments.length === 1) {
+					this.writeExperimentReport(experiments[0]);
+				} else {
+					new ExperimentSuggestModal(this.app, experiments, experiment => this.writeExperimentReport(experiment)).open();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'write-weekly-summary',
+			name: 'Write weekly health summary',
+			callback: () => {
+				this.chooseSummaryPeriod('weekly');
+			}
+		});
+
+		this.addCommand({
+			id: 'write-monthly-summary',
+			name: 'Write monthly health summary',
+			callback: () => {
+				this.chooseSummaryPeriod('monthly');
+			}
+		});
+
+		this.addCommand({
+			id: 'log-health-item',
+			name: 'Log health item',
+			callback: () => {
+				new LogHealthItemModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'review-parsed-note',
+			name: 'Review parsed health log of current note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isDailyNote(file)) return false;
+				if (!checking) {
+					this.openReview(file.path);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'reparse-current-note',
+			name: 'Re-parse health log of current note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isDailyNote(file)) return false;
+				if (!checking) {
+					this.reparseNote(file);
+				}
+				return true;
+			}
+		});
+
+		// Add settings tab
+		this.addSettingTab(new HealthLogSettingTab(this.app, this));
+	}
+
+	onunload() {
+		this.unloaded = true;
+		this.abortController?.abort();
+		this.indexAbort?.abort();
+		this.incrementalAbort.abort();
+	}
+
+	async loadSettings() {
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Settings saved before provider support used `useOllama`
+		if (data && data.useLLM === undefined && data.useOllama !== undefined) {
+			this.settings.useLLM = data.useOllama;
+			delete (this.settings as unknown as Record<string, unknown>).useOllama;
+		}
+		// A single `healthLogHeading` became a list of headings
+		if (data && data.healthLogHeadings === undefined && typeof data.healthLogHeading === 'string') {
+			this.settings.healthLogHeadings = data.healthLogHeading;
+			delete (this.settings as unknown as Record<string, unknown>).healthLogHeading;
+		}
+		// Copy so edits never touch the shared default array
+		this.settings.experiments = (this.settings.experiments || []).map(experiment => ({ ...experiment }));
+		this.aliases = parseAliasTable(this.settings.aliasTable);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		this.aliases = parseAliasTable(this.settings.aliasTable);
+		this.associationCache.clear();
+
+		// Settings that change what gets extracted or how it is normalized invalidate the index
+		const key = this.currentIndexSettingsKey();
+		if (this.indexReady && key !== this.indexSettingsKey) {
+			this.indexReady = false;
+			this.updateStatusBar();
+			// Re-reading from the cache is cheap; a new parser would re-parse everything,
+			// so that waits for the next explicit analysis instead
+			const parserUnchanged = this.indexSettingsKey?.split('|')[0] === this.parserSignature();
+			if (this.settings.backgroundIndexing && parserUnchanged) {
+				this.requestIndexRebuild();
+			}
+		}
+	}
+
+	currentIndexSettingsKey(): string {
+		const s = this.settings;
+		return [
+			this.parserSignature(),
+			s.useDateRegex, s.dateRegexPattern, s.dailyNoteTag,
+			s.healthLogSource, s.healthLogHeadings, s.healthLogCalloutTypes, s.healthLogFrontmatterField,
+			s.dateSource, s.dateFormat, s.frontmatterDateField,
+			s.aliasTable, s.splitCompoundFoods
+		].join('|');
+	}
+
+	async loadCache() {
+		try {
+			const data = await this.app.vault.adapter.read('.obsidian/plugins/health-log-analyzer/cache.json');
+			this.cache = migrateCache(JSON.parse(data));
+		} catch (error) {
+			// Cache doesn't exist or is invalid, initialize empty
+			this.cache = { version: CACHE_VERSION, entries: {} };
+		}
+	}
+
+	parserSignature(): string {
+		// Identifies what produced a parse, so switching model or prompt re-parses
+		if (!this.settings.useLLM) {
+			return `rule-based:v${RULE_PARSER_VERSION}`;
+		}
+		const model = this.settings.llmProvider === 'openai-compatible'
+			? this.settings.openAIModel
+			: this.settings.llmProvider === 'ollama-chat'
+				? this.settings.ollamaChatModel
+				: this.settings.ollamaModel;
+		return `${this.settings.llmProvider}:${model}:prompt-v${PROMPT_VERSION}`;
+	}
+
+	getCachedParse(file: TFile, hash: string): CachedEntry | null {
+		const cachedEntry = this.cache.entries[file.path];
+		if (!cachedEntry || cachedEntry.status === 'failed') return null;
+		// Entries migrated from 2.x carry no hash and a legacy parser, so never match
+		if (cachedEntry.hash === hash && cachedEntry.parser !== LEGACY_PARSER_SIGNATURE) return cachedEntry;
+		return null;
+	}
+
+	pruneCache(): number {
+		// Drop entries for notes that no longer exist
+		let pruned = 0;
+		for (const path of Object.keys(this.cache.entries)) {
+			if (!(this.app.vault.getAbstractFileByPath(path) instanceof TFile)) {
+				delete this.cache.entries[path];
+				pruned++;
+			}
+		}
+		return pruned;
+	}
+
+	handleFileRename(file: TAbstractFile, oldPath: string) {
+		if (this.overrides[oldPath]) {
+			this.overrides[file.path] = this.overrides[oldPath];
+			delete this.overrides[oldPath];
+			this.saveOverrides();
+		}
+		const entry = this.cache.entries[oldPath];
+		if (!entry) return;
+		delete this.cache.entries[oldPath];
+		this.cache.entries[file.path] = { ...entry, fileName: file.path };
+		this.requestCacheSave();
+	}
+
+	handleFileDelete(file: TAbstractFile) {
+		if (this.overrides[file.path]) {
+			delete this.overrides[file.path];
+			this.saveOverrides();
+		}
+		if (!this.cache.entries[file.path]) return;
+		delete this.cache.entries[file.path];
+		this.requestCacheSave();
+	}
+
+	async saveCache() {
+		try {
+			await this.app.vault.adapter.write(
+				'.obsidian/plugins/health-log-analyzer/cache.json',
+				JSON.stringify(this.cache, null, 2)
+			);
+		} catch (error) {
+			console.error('Failed to save cache:', error);
+		}
+	}
+
+	async loadOverrides() {
+		try {
+			const data = await this.app.vault.adapter.read('.obsidian/plugins/health-log-analyzer/overrides.json');
+			this.overrides = JSON.parse(data);
+		} catch (error) {
+			// No corrections made yet
+			this.overrides = {};
+		}
+	}
+
+	async saveOverrides() {
+		try {
+			await this.app.vault.adapter.write(
+				'.obsidian/plugins/health-log-analyzer/overrides.json',
+				JSON.stringify(this.overrides, null, 2)
+			);
+		} catch (error) {
+			console.error('Failed to save corrections:', error);
+		}
+	}
+
+	async loadResults() {
+		try {
+			const data = await this.app.vault.adapter.read('.obsidian/plugins/health-log-analyzer/results.json');
+			this.lastResults = JSON.parse(data);
+			// Results saved before entries carried a day number or the newer categories
+			for (const entry of this.lastResults?.entries || []) {
+				if (entry.day === undefined) {
+					entry.day = parseNoteDay(entry.date);
+				}
+				entry.parsed = { ...emptyParsedData(), ...entry.parsed };
+			}
+		} catch (error) {
+			// No previous analysis yet
+			this.lastResults = null;
+		}
+	}
+
+	async saveResults() {
+		try {
+			await this.app.vault.adapter.write(
+				'.obsidian/plugins/health-log-analyzer/results.json',
+				JSON.stringify(this.lastResults)
+			);
+		} catch (error) {
+			console.error('Failed to save analysis results:', error);
+		}
+	}
+
+	async activateDashboard() {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_HEALTH_DASHBOARD)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_HEALTH_DASHBOARD, active: true });
+		}
+
+		await workspace.revealLeaf(leaf);
+		if (leaf.view instanceof HealthLogDashboardView) {
+			leaf.view.render();
+		}
+	}
+
+	async openReview(filePath: string, highlight: string[] = []) {
+		// Reuse an open review tab, otherwise open one next to the current note
+		const { workspace } = this.app;
+		const leaf = workspace.getLeavesOfType(VIEW_TYPE_HEALTH_REVIEW)[0] || workspace.getLeaf('split');
+		await leaf.setViewState({ type: VIEW_TYPE_HEALTH_REVIEW, active: true, state: { file: filePath, highlight } });
+		await workspace.revealLeaf(leaf);
+	}
+
+	async updateOverrides(file: TFile, overrides: ItemOverride[]) {
+		if (overrides.length > 0) {
+			this.overrides[file.path] = overrides;
+		} else {
+			delete this.overrides[file.path];
+		}
+		await this.saveOverrides();
+		// The parse itself is cached, so this only re-applies the corrections
+		await this.indexFiles([file], this.incrementalAbort.signal);
+		this.notifyIndexChanged();
+		this.updateStatusBar();
+	}
+
+	async reparseNote(file: TFile) {
+		// Drops the cached parse so the note goes through the parser again; corrections are kept
+		const notice = new Notice(`Re-parsing ${file.basename}...`, 0);
+		try {
+			delete this.cache.entries[file.path];
+			const signal = this.incrementalAbort.signal;
+			const stats = await this.indexFiles([file], signal);
+			notice.setMessage(signal.aborted
+				? `Re-parsing ${file.basename} was cancelled`
+				: stats.failedFiles.length > 0
+					? `LLM parsing failed for ${file.basename}; the rule-based result is used until the next run`
+					: stats.parsedCount > 0
+						? `Re-parsed ${file.basename}`
+						: `No health log section found in ${file.basename}`);
+		} catch (error) {
+			console.error(`Failed to re-parse ${file.path}:`, error);
+			notice.setMessage(`Failed to re-parse ${file.basename}: ${error.message}`);
+		}
+		setTimeout(() => notice.hide(), 3000);
+		this.notifyIndexChanged();
+		this.updateStatusBar();
+	}
+
+	async openHealthLog(filePath: string, newLeaf: boolean = false) {
+		// Open the note scrolled to its Health log heading
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (!(file instanceof TFile)) {
+			new Notice(`Note not found: ${filePath}`);
+			return;
+		}
+		await this.app.workspace.openLinkText(this.healthLogLinktext(file, ''), '', newLeaf);
+	}
+
+	healthLogLinktext(file: TFile, sourcePath: string): string {
+		// Link to the first matching heading; callouts and frontmatter link to the note itself
+		const linktext = this.app.metadataCache.fileToLinktext(file, sourcePath);
+		if (this.settings.healthLogSource !== 'heading') return linktext;
+		const matches = createHeadingMatcher(this.settings.healthLogHeadings);
+		const heading = this.app.metadataCache.getFileCache(file)?.headings?.find(h => matches(h.heading.trim()));
+		return heading ? `${linktext}#${heading.heading}` : linktext;
+	}
+
+	async exportResults(formats: ExportFormat[]) {
+		// Re-scored on every export so the files always match the current notes
+		const results = await this.runAnalysis();
+		if (!results) return;
+
+		try {
+			const folder = normalizePath(this.settings.exportFolder || '/');
+			const written: string[] = [];
+
+			for (const format of formats) {
+				const path = normalizePath(`${folder}/${EXPORT_FILE_NAMES[format]}`);
+				const content = format === 'markdown'
+					? this.buildMarkdownReport(results, path)
+					: format === 'csv'
+						? this.buildCsvExport(results)
+						: this.buildJsonExport(results);
+				await this.writeVaultFile(path, content);
+				written.push(path);
+			}
+
+			new Notice(`Exported analysis to ${written.join(', ')}`);
+		} catch (error) {
+			console.error('Failed to export analysis:', error);
+			new Notice('Failed to export analysis. Check console for details.');
+		}
+	}
+
+	async writeVaultFile(path: string, content: string) {
+		// Update in place so links to the report keep working between runs
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+			return;
+		}
+
+		const folder = path.substring(0, path.lastIndexOf('/'));
+		if (folder && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		await this.app.vault.create(path, content);
+	}
+
+	buildMarkdownReport(results: AnalysisResults, reportPath: string): string {
+		const summary = summarizeEntries(results.entries);
+		const filesByDate = new Map(results.entries.map(entry => [entry.date, entry.fileName]));
+		const linkTo = (date: string): string => {
+			const file = this.app.vault.getAbstractFileByPath(filesByDate.get(date) || '');
+			if (!(file instanceof TFile)) return date;
+			return `[[${this.healthLogLinktext(file, reportPath)}\\|${date}]]`;
+		};
+
+		const lines: string[] = [
+			'---',
+			`generated: ${new Date(results.generatedAt).toISOString()}`,
+			`entries: ${summary.entries}`,
+			'---',
+			'',
+			'# Health Log Analysis',
+			'',
+			`Generated ${new Date(results.generatedAt).toLocaleString()} from ${summary.entries} daily notes`
+				+ (summary.firstDate ? ` (${summary.firstDate} to ${summary.lastDate}).` : '.'),
+			'',
+			'## Summary',
+			'',
+			'| Measure | Value |',
+			'| --- | --- |',
+			`| Entries analyzed | ${summary.entries} |`,
+			`| Unique foods | ${summary.uniqueFoods} |`,
+			`| Unique supplements | ${summary.uniqueSupplements} |`,
+			`| Unique medications | ${summary.uniqueMedications} |`,
+			`| Unique exercise | ${summary.uniqueExercise} |`,
+			`| Unique behaviors | ${summary.uniqueBehaviors} |`,
+			`| Unique symptoms | ${summary.uniqueSymptoms} |`,
+			`| Symptom-free days | ${summary.symptomFreeDays} |`,
+			`| Associations | ${results.associations.length} |`,
+			`| Lag window | ${this.settings.lagWindowMinHours}–${this.settings.lagWindowMaxHours} hours |`,
+			'',
+			'## Associations',
+			''
+		];
+
+		if (results.associations.length === 0) {
+			lines.push('No associations met the minimum support and p-value thresholds.');
+		} else {
+			lines.push(
+				'| Trigger | Type | Symptom | Days | Explicitly absent | Rate | Baseline | Lift | Relative risk | p-value | Adjusted effect | Inseparable from | Mean severity | Severity lift | Median lag | Covariates (trigger days vs other days) | Notes |',
+				'| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+			);
+			for (const assoc of results.associations) {
+				lines.push('| ' + [
+					escapeTableCell(assoc.trigger.name),
+					assoc.trigger.type,
+					escapeTableCell(assoc.symptom),
+					`${assoc.totalCount}/${assoc.exposureDays}`,
+					assoc.unweightedLift !== undefined
+						? `${assoc.symptomFreeDays} (without: lift ${assoc.unweightedLift.toFixed(2)}×, p = ${formatPValue(assoc.unweightedPValue!)})`
+						: String(assoc.symptomFreeDays ?? 0),
+					`${assoc.percentage.toFixed(1)}%`,
+					`${(assoc.baselineRate * 100).toFixed(1)}%`,
+					`${assoc.lift.toFixed(2)}×`,
+					assoc.relativeRisk.toFixed(2),
+					formatPValue(assoc.pValue),
+					formatAdjustedEffect(assoc),
+					escapeTableCell((assoc.inseparableWith || []).join(', ')),
+					assoc.meanSeverity !== undefined ? `${assoc.meanSeverity.toFixed(1)}/10` : '',
+					assoc.severityLift !== undefined ? `${assoc.severityLift.toFixed(2)}×` : '',
+					assoc.lagStats ? formatMinutes(assoc.lagStats.median) : '',
+					escapeTableCell(formatCovariates(assoc.covariates)),
+					assoc.occurrences.map(occ => linkTo(occ.date)).join(', ')
+				].join(' | ') + ' |');
+			}
+		}
+
+		lines.push(
+			'',
+			'> [!note] Associations are based on co-occurrence, not causation. Results are informational and not medical advice.',
+			''
+		);
+		return lines.join('\n');
+	}
+
+	buildCsvExport(results: AnalysisResults): string {
+		const header = [
+			'trigger', 'trigger_type', 'symptom', 'co_occurrence_days', 'exposure_days',
+			'symptom_free_days', 'symptom_days', 'total_days', 'rate', 'baseline_rate', 'unexposed_rate',
+			'lift', 'relative_risk', 'p_value', 'unweighted_lift', 'unweighted_p_value', 'adjusted_odds_ratio', 'adjusted_ci_low',
+			'adjusted_ci_high', 'adjusted_p_value', 'inseparable_with', 'mean_severity', 'severity_score',
+			'baseline_severity_score', 'severity_lift', 'lag_median_minutes', 'lag_min_minutes',
+			'lag_max_minutes', 'covariates', 'dates'
+		];
+		const rows = results.associations.map(assoc => [
+			assoc.trigger.name,
+			assoc.trigger.type,
+			assoc.symptom,
+			assoc.totalCount,
+			assoc.exposureDays,
+			assoc.symptomFreeDays ?? 0,
+			assoc.symptomDays,
+			assoc.totalDays,
+			(assoc.percentage / 100).toFixed(4),
+			assoc.baselineRate.toFixed(4),
+			assoc.unexposedRate.toFixed(4),
+			assoc.lift.toFixed(4),
+			assoc.relativeRisk.toFixed(4),
+			assoc.pValue.toPrecision(4),
+			assoc.unweightedLift?.toFixed(4) ?? '',
+			assoc.unweightedPValue?.toPrecision(4) ?? '',
+			assoc.adjustedOddsRatio?.toFixed(4) ?? '',
+			assoc.adjustedConfidence?.[0].toFixed(4) ?? '',
+			assoc.adjustedConfidence?.[1].toFixed(4) ?? '',
+			assoc.adjustedPValue?.toPrecision(4) ?? '',
+			(assoc.inseparableWith || []).join(';'),
+			assoc.meanSeverity?.toFixed(2) ?? '',
+			assoc.severityScore?.toFixed(4) ?? '',
+			assoc.baselineSeverityScore?.toFixed(4) ?? '',
+			assoc.severityLift?.toFixed(4) ?? '',
+			assoc.lagStats?.median ?? '',
+			assoc.lagStats?.min ?? '',
+			assoc.lagStats?.max ?? '',
+			formatCovariates(assoc.covariates),
+			assoc.occurrences.map(occ => occ.date).join(';')
+		].map(escapeCsv).join(','));
+
+		return [header.join(','), ...rows].join('\n') + '\n';
+	}
+
+	buildJsonExport(results: AnalysisResults): string {
+		return JSON.stringify({
+			generatedAt: new Date(results.generatedAt).toISOString(),
+			summary: summarizeEntries(results.entries),
+			settings: {
+				minSupport: this.settings.minSupport,
+				maxPValue: this.settings.maxPValue,
+				lagWindowMinHours: this.settings.lagWindowMinHours,
+				lagWindowMaxHours: this.settings.lagWindowMaxHours,
+				shortSleepHours: this.settings.shortSleepHours,
+				highLevelThreshold: this.settings.highLevelThreshold,
+				lowHydrationLiters: this.settings.lowHydrationLiters,
+				multivariableAnalysis: this.settings.multivariableAnalysis
+			},
+			associations: results.associations
+		}, null, 2);
+	}
+
+	async callLLM(prompt: string, signal?: AbortSignal): Promise<string> {
+		try {
+			return await createLLMProvider(this.settings).generate(prompt, signal);
+		} catch (error) {
+			console.error('LLM API call failed:', error);
+			throw error;
+		}
+	}
+
+	async parseHealthLogWithLLM(
+		content: string, date: string, signal?: AbortSignal, waitForSlot?: (signal: AbortSignal) => Promise<void>
+	): Promise<ParsedHealthData> {
+		const prompt = `You are analyzing a health log entry. Extract all foods, supplements, medications, exercise, symptoms, sleep, mood/stress, hydration and other behaviors with their timing information.
+
+Date: ${date}
+Health Log Content:
+${content}
+
+Extract the following information and return ONLY a valid JSON object with this exact structure:
+{
+  "foods": [{"name": "food name", "time": "time if mentioned"}],
+  "supplements": [{"name": "supplement name", "dose": "dosage if mentioned", "time": "time if mentioned"}],
+  "medications": [{"name": "medication name", "dose": "dosage if mentioned", "time": "time if mentioned"}],
+  "exercise": [{"activity": "exercise description", "duration": "duration if mentioned", "time": "time if mentioned"}],
+  "symptoms": [{"description": "symptom description", "severity": "severity if mentioned", "time": "time if mentioned", "onset": "when it occurred relative to something else, e.g., '30min later', '2 hours after'"}],
+  "sleep": [{"duration": "e.g. '7 hours'", "quality": "e.g. 'poor', 'good' or '6/10'", "time": "bedtime if mentioned"}],
+  "mood": [{"name": "what is rated, e.g. 'stress', 'mood', 'energy', 'anxiety'", "level": "e.g. 'high', 'moderate' or '7/10'", "time": "time if mentioned"}],
+  "hydration": [{"name": "e.g. 'water'", "dose": "amount, e.g. '2 L' or '3 glasses'", "time": "time if mentioned"}],
+  "behaviors": [{"description": "other behavior, e.g. 'worked at desk', 'late screen time'", "duration": "duration if mentioned", "time": "time if mentioned"}],
+  "absentSymptoms": [{"description": "symptom explicitly reported as absent, e.g. 'headache' for 'no headache today', or 'symptoms' for 'no symptoms'/'no issues'", "time": "time if mentioned"}],
+  "positiveOutcomes": [{"description": "positive outcome, e.g. 'felt great', 'energized'", "time": "time if mentioned"}]
+}
+
+Rules:
+- Extract the actual substance/food name, not the category heading (e.g., "ascorbic acid" not "Morning (food)")
+- For supplements, extract the substance name and dosage separately (e.g., "225mg ascorbic acid" → name: "ascorbic acid", dose: "225mg")
+- Put prescription and over-the-counter drugs (e.g., ibuprofen, antihistamines) in "medications", not "supplements"
+- Put plain water and other fluids logged for hydration in "hydration"; coffee, tea, juice and other drinks stay in "foods"
+- Use an empty array for any category with nothing to report
+- Never put negated or positive statements in "symptoms": "no headache today" goes in "absentSymptoms" as "headache", "no symptoms" or "no issues" as "symptoms", and "felt great" goes in "positiveOutcomes"
+- For symptoms, extract the actual symptom phrase (e.g., "feeling slightly fatigued and anxious", "stomach feels quite acidic")
+- Include relative timing like "30min later", "after", "2 hours later" in the onset field
+- Sub-headings such as "### Breakfast" or "### Evening" give the time of day for the items beneath them; use that as the time unless an explicit time is given
+- If no timing information is present, omit the time/onset fields
+- Omit any field you have no value for; never use null, numbers or nested objects as field values
+- Return ONLY the JSON object, no additional text or explanation`;
+
+		// Validate strictly and ask the model to repair malformed output a bounded number of times
+		let request = prompt;
+		let issues: string[] = [];
+		for (let attempt = 0; attempt <= this.settings.llmMaxRetries; attempt++) {
+			// Repair requests count against the rate limit like the first one
+			if (waitForSlot) await waitForSlot(signal || new AbortController().signal);
+			const response = await this.callLLM(request, signal);
+
+			let parsed: unknown;
+			try {
+				parsed = JSON.parse(extractJsonObject(response));
+				issues = validateParsedHealthData(parsed);
+			} catch (error) {
+				issues = [`response is not valid JSON (${error.message})`];
+			}
+
+			if (issues.length === 0) {
+				return parsed as ParsedHealthData;
+			}
+
+			console.warn(`LLM output for ${date} failed validation (attempt ${attempt + 1}):`, issues);
+			request = `${prompt}
+
+Your previous response was rejected because:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${response}
+
+Return ONLY a corrected JSON object with exactly the keys ${Object.keys(ITEM_SCHEMA).map(key => `"${key}"`).join(', ')}, each an array of objects using only the fields shown above, with string values.`;
+		}
+
+		throw new LLMOutputError(issues);
+	}
+
+	async analyzeHealthLogs() {
+		if (await this.runAnalysis()) {
+			await this.activateDashboard();
+		}
+	}
+
+	async runAnalysis(): Promise<AnalysisResults | null> {
+		// Scores the current notes and keeps the results; null when there is nothing to analyze
+		try {
+			if (!(this.settings.backgroundIndexing && this.indexReady)) {
+				new Notice('Analyzing health logs...');
+			}
+
+			let healthEntries = await this.collectHealthEntries();
+			if (!healthEntries) return null;
+
+			// Limit to the configured analysis period, if any
+			healthEntries = filterEntriesByDateRange(healthEntries, this.settings.analysisStartDate, this.settings.analysisEndDate);
+			if (healthEntries.length === 0) {
+				new Notice('No health log entries fall within the configured analysis period.');
+				return null;
+			}
+
+			// Analyze associations
+			const associations = this.analyzeAssociations(healthEntries);
+
+			// Keep the results so the dashboard can reopen with them
+			this.lastResults = {
+				generatedAt: Date.now(),
+				entries: healthEntries,
+				associations: associations
+			};
+			await this.saveResults();
+			// Embedded queries read these results while there is no index
+			if (this.index.size === 0) this.notifyIndexChanged();
+			return this.lastResults;
+		} catch (error) {
+			console.error('Error analyzing health logs:', error);
+			new Notice('Error analyzing health logs. Check console for details.');
+			return null;
+		}
+	}
+
+	async collectHealthEntries(): Promise<HealthEntry[] | null> {
+		// All parsed entries in date order, from the index when it is current;
+		// shows a notice and returns null when there is nothing to analyze
+		let healthEntries: HealthEntry[];
+		if (this.settings.backgroundIndexing && this.indexReady) {
+			// The index is current apart from any queued edits, so this is aggregation only
+			this.requestIndexFlush.cancel();
+			await this.flushIndexQueue();
+			healthEntries = Array.from(this.index.values())
+				.sort(compareEntries);
+		} else {
+			// Find all daily notes
+			const dailyNotes = await this.findDailyNotes();
+
+			if (dailyNotes.length === 0) {
+				new Notice('No daily notes found!');
+				return null;
+			}
+
+			// A foreground run supersedes an unfinished background pass and pending single-note parses
+			this.indexAbort?.abort();
+			this.incrementalAbort.abort();
+			this.incrementalAbort = new AbortController();
+			healthEntries = await this.extractHealthEntries(dailyNotes);
+		}
+
+		if (healthEntries.length === 0) {
+			new Notice('No health log sections found in daily notes!');
+			return null;
+		}
+		return healthEntries;
+	}
+
+	analyzeExperiment(entries: HealthEntry[], experiment: EliminationExperiment): ExperimentResult {
+		// Per-period symptom frequency (share of logged days) and mean severity,
+		// plus every day a trigger from the group was logged
+		const group = splitList(experiment.triggers);
+		const symptomFilter = splitList(experiment.symptoms);
+		const ranges: Array<[ExperimentPeriod['label'], string, string]> = [
+			['Baseline', experiment.baselineStart, experiment.baselineEnd],
+			['Elimination', experiment.eliminationStart, experiment.eliminationEnd]
+		];
+		if (experiment.reintroductionStart && experiment.reintroductionEnd) {
+			ranges.push(['Reintroduction', experiment.reintroductionStart, experiment.reintroductionEnd]);
+		}
+
+		const periods = ranges.map(([label, start, end]): ExperimentPeriod => {
+			const periodEntries = filterEntriesByDateRange(entries, start, end);
+			const loggedDays = new Set(periodEntries.map(entry => entry.date)).size;
+			const exposures: ExperimentPeriod['exposures'] = [];
+			const symptomDays = new Map<string, Set<string>>();
+			const severities = new Map<string, number[]>();
+
+			for (const entry of periodEntries) {
+				for (const trigger of this.entryTriggers(entry)) {
+					if (matchesTriggerGroup(itemName(trigger.item), group)) {
+						exposures.push({ date: entry.date, fileName: entry.fileName, trigger: itemName(trigger.item) });
+					}
+				}
+				for (const symptom of entry.parsed.symptoms) {
+					const name = itemName(symptom);
+					if (symptomFilter.length > 0 && !symptomFilter.includes(name)) continue;
+					if (!symptomDays.has(name)) {
+						symptomDays.set(name, new Set());
+						severities.set(name, []);
+					}
+					symptomDays.get(name)!.add(entry.date);
+					if (symptom.severityScore !== undefined) severities.get(name)!.push(symptom.severityScore);
+				}
+			}
+
+			const symptoms: ExperimentPeriod['symptoms'] = {};
+			for (const [name, dates] of symptomDays) {
+				const rated = severities.get(name)!;
+				symptoms[name] = {
+					days: dates.size,
+					rate: loggedDays > 0 ? dates.size / loggedDays : 0,
+					meanSeverity: rated.length > 0 ? rated.reduce((sum, s) => sum + s, 0) / rated.length : undefined
+				};
+			}
+			return { label, start, end, loggedDays, exposures, symptoms };
+		});
+
+		const [baseline, elimination, reintroduction] = periods;
+		const names = new Set([...symptomFilter, ...periods.flatMap(period => Object.keys(period.symptoms))]);
+		const statsFor = (period: ExperimentPeriod, name: string) => period.symptoms[name] || { days: 0, rate: 0 };
+		const comparisons = Array.from(names).sort().map((symptom): ExperimentComparison => {
+			const base = statsFor(baseline, symptom);
+			const elim = statsFor(elimination, symptom);
+			const comparison: ExperimentComparison = {
+				symptom,
+				baseline: base,
+				elimination: elim,
+				eliminationPValue: fisherExactTest(base.days, baseline.loggedDays - base.days, elim.days, elimination.loggedDays - elim.days)
+			};
+			if (reintroduction) {
+				const reintro = statsFor(reintroduction, symptom);
+				comparison.reintroduction = reintro;
+				comparison.reintroductionPValue = fisherExactTest(
+					reintro.days, reintroduction.loggedDays - reintro.days, elim.days, elimination.loggedDays - elim.days);
+			}
+			return comparison;
+		});
+
+		return { experiment, generatedAt: Date.now(), periods, comparisons };
+	}
+
+	async writeExperimentReport(experiment: EliminationExperiment) {
+		try {
+			const entries = await this.collectHealthEntries();
+			if (!entries) return;
+
+			const result = this.analyzeExperiment(entries, experiment);
+			const fileName = `Experiment - ${(experiment.name || 'Untitled').replace(/[\\/:*?"<>|#^[\]]/g, '-')}.md`;
+			const path = normalizePath(`${this.settings.exportFolder || '/'}/${fileName}`);
+			await this.writeVaultFile(path, this.buildExperimentReport(result, path));
+
+			const violations = result.periods.find(period => period.label === 'Elimination')!.exposures;
+			if (violations.length > 0) {
+				new Notice(`"${experiment.name}": trigger logged on ${new Set(violations.map(v => v.date)).size} day(s) during elimination. See the report.`);
+			}
+			await this.app.workspace.openLinkText(path, '', false);
+		} catch (error) {
+			console.error('Failed to write experiment report:', error);
+			new Notice('Failed to write experiment report. Check console for details.');
+		}
+	}
+
+	buildExperimentReport(result: ExperimentResult, reportPath: string): string {
+		const { experiment, periods, comparisons } = result;
+		const linkTo = (date: string, filePath: string): string => {
+			const file = this.app.vault.getAbstractFileByPath(filePath);
+			return file instanceof TFile ? `[[${this.healthLogLinktext(file, reportPath)}\\|${date}]]` : date;
+		};
+		const elimination = periods.find(period => period.label === 'Elimination')!;
+		const hasReintroduction = periods.length > 2;
+
+		const lines: string[] = [
+			'---',
+			`generated: ${new Date(result.generatedAt).toISOString()}`,
+			`experiment: ${JSON.stringify(experiment.name)}`,
+			'---',
+			'',
+			`# Elimination experiment: ${experiment.name}`,
+			'',
+			`Triggers: ${splitList(experiment.triggers).join(', ') || '(none)'}`,
+			'',
+			'## Periods',
+			'',
+			'| Period | Dates | Logged days | Trigger days |',
+			'| --- | --- | --- | --- |',
+			...periods.map(period => `| ${period.label} | ${period.start} to ${period.end} | ${period.loggedDays} | ${new Set(period.exposures.map(e => e.date)).size} |`),
+			''
+		];
+
+		if (elimination.exposures.length > 0) {
+			lines.push(
+				'> [!warning] Trigger logged during elimination',
+				...elimination.exposures.map(exposure => `> - ${linkTo(exposure.date, exposure.fileName)}: ${exposure.trigger}`),
+				''
+			);
+		}
+		if (periods.some(period => period.loggedDays === 0)) {
+			lines.push('> [!note] Some periods have no logged days, so their rates cannot be compared.', '');
+		}
+
+		lines.push('## Symptoms', '');
+		if (comparisons.length === 0) {
+			lines.push('No symptoms were logged in any period.');
+		} else {
+			lines.push(
+				'| Symptom | Baseline | Elimination | p (lower in elimination) |'
+					+ (hasReintroduction ? ' Reintroduction | p (higher on reintroduction) |' : ''),
+				'| --- | --- | --- | --- |' + (hasReintroduction ? ' --- | --- |' : '')
+			);
+			for (const comparison of comparisons) {
+				const cells = [
+					escapeTableCell(comparison.symptom),
+					experimentSummary(comparison.baseline),
+					experimentSummary(comparison.elimination),
+					formatPValue(comparison.eliminationPValue)
+				];
+				if (comparison.reintroduction) {
+					cells.push(experimentSummary(comparison.reintroduction), formatPValue(comparison.reintroductionPValue!));
+				}
+				lines.push(`| ${cells.join(' | ')} |`);
+			}
+
+			lines.push('', '## Summary', '');
+			for (const comparison of comparisons) {
+				const change = comparison.elimination.rate - comparison.baseline.rate;
+				let sentence = `- **${comparison.symptom}**: ${change < 0 ? 'less' : change > 0 ? 'more' : 'equally'} frequent during elimination`
+					+ ` (${(comparison.baseline.rate * 100).toFixed(0)}% → ${(comparison.elimination.rate * 100).toFixed(0)}% of days`
+					+ (comparison.eliminationPValue < 0.05 ? ', significant at p < 0.05)' : ')');
+				if (comparison.baseline.meanSeverity !== undefined && comparison.elimination.meanSeverity !== undefined) {
+					sentence += `; severity ${comparison.baseline.meanSeverity.toFixed(1)} → ${comparison.elimination.meanSeverity.toFixed(1)}`;
+				}
+				if (comparison.reintroduction) {
+					sentence += `; ${comparison.reintroductionPValue! < 0.05 ? 'returned' : 'did not clearly return'} on reintroduction`
+						+ ` (${(comparison.reintroduction.rate * 100).toFixed(0)}% of days)`;
+				}
+				lines.push(sentence);
+			}
+		}
+
+		lines.push(
+			'',
+			'> [!note] Frequencies are the share of logged days in each period with the symptom. Small periods give wide uncertainty; results are informational and not medical advice.',
+			''
+		);
+		return lines.join('\n');
+	}
+
+	warnEliminationExposures(entries: HealthEntry[]) {
+		// Live reminder when an edited note logs a trigger inside an elimination period
+		for (const experiment of this.settings.experiments) {
+			const group = splitList(experiment.triggers);
+			if (group.length === 0 || !experimentDatesComplete(experiment)) continue;
+			for (const entry of filterEntriesByDateRange(entries, experiment.eliminationStart, experiment.eliminationEnd)) {
+				// Once per note and date, not on every re-index while the note is edited
+				const key = `${experiment.id}|${entry.fileName}|${entry.date}`;
+				if (this.warnedExposures.has(key)) continue;
+				const hits = this.entryTriggers(entry)
+					.map(trigger => matchesTriggerGroup(itemName(trigger.item), group) && itemName(trigger.item))
+					.filter((name): name is string => typeof name === 'string');
+				if (hits.length > 0) {
+					this.warnedExposures.add(key);
+					new Notice(`"${experiment.name}" elimination: ${Array.from(new Set(hits)).join(', ')} logged on ${entry.date}`);
+				}
+			}
+		}
+	}
+
+	async findDailyNotes(): Promise<TFile[]> {
+		const files = this.app.vault.getMarkdownFiles();
+		const dailyNotes = files.filter(file => this.isDailyNote(file));
+		return dailyNotes.sort((a, b) => a.basename.localeCompare(b.basename));
+	}
+
+	resolveNoteDate(file: TFile): { date: string; day: number | null } {
+		let day: number | null = null;
+
+		if (this.settings.dateSource === 'frontmatter') {
+			const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[this.settings.frontmatterDateField];
+			if (value) {
+				day = momentToDay(moment(String(value), ['YYYY-MM-DD', moment.ISO_8601]));
+			}
+		} else if (this.settings.dateSource === 'filename-format') {
+			const format = this.settings.dateFormat || this.getDailyNotesFormat();
+			day = momentToDay(moment(file.basename, format, true));
+		} else {
+			day = this.parseDateFromRegex(file.basename);
+		}
+
+		return { date: day !== null ? dayToIsoDate(day) : file.basename, day };
+	}
+
+	parseDateFromRegex(name: string): number | null {
+		// Named groups (year/month/day) win; otherwise groups 1-3 are read as
+		// year, month, day; without groups the whole match is parsed as a date
+		let match: RegExpMatchArray | null;
+		try {
+			match = name.match(new RegExp(this.settings.dateRegexPattern));
+		} catch (error) {
+			return null;
+		}
+		if (!match) return null;
+
+		const groups = match.groups;
+		const [year, month, day] = groups?.year
+			? [groups.year, groups.month, groups.day]
+			: match.length >= 4 ? [match[1], match[2], match[3]] : [];
+		if (year && month && day) {
+			const fullYear = year.length === 2 ? `20${year}` : year;
+			const parsed = momentToDay(moment(`${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`, 'YYYY-MM-DD', true));
+			if (parsed !== null) return parsed;
+		}
+		return momentToDay(moment(match[0], this.settings.dateFormat || 'YYYY-MM-DD', true));
+	}
+
+	getDailyNotesFormat(): string {
+		// Fall back to the core Daily Notes plugin's format, then ISO dates
+		return this.getDailyNotesOptions().format || 'YYYY-MM-DD';
+	}
+
+	getDailyNotesOptions(): { format?: string; folder?: string; template?: string } {
+		const internal = (this.app as unknown as {
+			internalPlugins?: { getPluginById(id: string): { instance?: { options?: { format?: string; folder?: string; template?: string } } } | null };
+		}).internalPlugins;
+		return internal?.getPluginById('daily-notes')?.instance?.options || {};
+	}
+
+	async getTodayNote(): Promise<TFile> {
+		// An existing note for today wins, whatever its name; otherwise one is
+		// created the way the core Daily Notes plugin would
+		const now = moment();
+		const today = now.format('YYYY-MM-DD');
+		const existing = (await this.findDailyNotes()).find(file => this.resolveNoteDate(file).date === today);
+		if (existing) return existing;
+
+		const options = this.getDailyNotesOptions();
+		const format = options.format || 'YYYY-MM-DD';
+		const title = now.format(format);
+		const path = normalizePath(`${options.folder?.trim() || ''}/${title}.md`);
+		// A note at that path may just not be detected (no tag yet, cache not ready); never overwrite it
+		const atPath = this.app.vault.getAbstractFileByPath(path);
+		if (atPath instanceof TFile) return atPath;
+
+		let content = '';
+		const template = options.template ? this.app.metadataCache.getFirstLinkpathDest(options.template, '') : null;
+		if (template) {
+			content = applyDateTemplate(await this.app.vault.read(template), now, format, title);
+		}
+		// Tag-based detection needs the tag for the new note to count
+		if (!this.settings.useDateRegex && !content.includes(this.settings.dailyNoteTag)) {
+			// After the template's frontmatter, which has to stay on the first line
+			const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/);
+			const split = frontmatter ? frontmatter[0].length : 0;
+			const head = content.slice(0, split);
+			content = `${head}${head && !head.endsWith('\n') ? '\n' : ''}${this.settings.dailyNoteTag}\n${content.slice(split)}`;
+		}
+		await this.writeVaultFile(path, content);
+		return this.app.vault.getAbstractFileByPath(path) as TFile;
+	}
+
+	async appendHealthLogLine(file: TFile, line: string) {
+		// Writes to wherever Health log entries are read from
+		if (this.settings.healthLogSource === 'frontmatter') {
+			const field = this.settings.healthLogFrontmatterField;
+			const value = line.replace(/^-\s+/, '');
+			await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+				const current = frontmatter[field];
+				frontmatter[field] = Array.isArray(current) ? [...current, value] : current ? [current, value] : [value];
+			});
+			return;
+		}
+
+		const content = await this.app.vault.read(file);
+		const updated = this.settings.healthLogSource === 'callout'
+			? insertIntoCallout(content, line, this.settings.healthLogCalloutTypes.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))
+			: insertUnderHeading(content, line, createHeadingMatcher(this.settings.healthLogHeadings), primaryHealthLogHeading(this.settings.healthLogHeadings));
+		await this.app.vault.modify(file, updated);
+	}
+
+	async logHealthItem(entry: QuickLogEntry) {
+		try {
+			const file = await this.getTodayNote();
+			await this.appendHealthLogLine(file, formatQuickLogLine(entry));
+			new Notice(`Logged ${entry.name.trim()} in ${file.basename}`);
+		} catch (error) {
+			console.error('Failed to log health item:', error);
+			new Notice(`Failed to log health item: ${error.message}`);
+		}
+	}
+
+	getPeriodicNoteOptions(kind: SummaryPeriodKind): { format: string; folder: string; template?: string } {
+		// Periodic Notes settings when that plugin handles this kind of note, otherwise ours
+		const periodic = (this.app as unknown as {
+			plugins?: { getPlugin(id: string): { settings?: Record<string, { enabled?: boolean; format?: string; folder?: string; template?: string }> } | null };
+		}).plugins?.getPlugin('periodic-notes')?.settings?.[kind];
+		if (periodic?.enabled) {
+			return {
+				format: periodic.format || (kind === 'weekly' ? 'gggg-[W]ww' : 'YYYY-MM'),
+				folder: periodic.folder || '',
+				template: periodic.template
+			};
+		}
+		return {
+			format: (kind === 'weekly' ? this.settings.weeklyNoteFormat : this.settings.monthlyNoteFormat)
+				|| (kind === 'weekly' ? 'gggg-[W]ww' : 'YYYY-MM'),
+			folder: this.settings.periodicNotesFolder
+		};
+	}
+
+	async getPeriodicNote(period: SummaryPeriod): Promise<TFile> {
+		const options = this.getPeriodicNoteOptions(period.kind);
+		const date = moment(period.start);
+		const title = date.format(options.format);
+		const path = normalizePath(`${options.folder.trim()}/${title}.md`);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) return existing;
+
+		const template = options.template ? this.app.metadataCache.getFirstLinkpathDest(options.template, '') : null;
+		const content = template ? applyDateTemplate(await this.app.vault.read(template), date, options.format, title) : '';
+		await this.writeVaultFile(path, content);
+		return this.app.vault.getAbstractFileByPath(path) as TFile;
+	}
+
+	async buildPeriodicSummary(entries: HealthEntry[], period: SummaryPeriod, notePath: string): Promise<string> {
+		const previous = previousSummaryPeriod(period);
+		const current = filterEntriesByDateRange(entries, period.start, period.end);
+		const before = filterEntriesByDateRange(entries, previous.start, previous.end);
+		const dateRange = (p: SummaryPeriod) => `${p.label} (${p.start} to ${p.end})`;
+
+		// Days so far, so a summary of the running week doesn't count the rest as missing
+		const first = parseNoteDay(period.start)!;
+		const last = Math.min(parseNoteDay(period.end)!, momentToDay(moment())!);
+		const loggedDays = (list: HealthEntry[]) => new Set(list.map(entry => entry.day)).size;
+		const logged = new Set(current.map(entry => entry.day));
+		const missing: string[] = [];
+		for (let day = first; day <= last; day++) {
+			if (!logged.has(day)) missing.push(dayToIsoDate(day));
+		}
+		const previousDays = parseNoteDay(previous.end)! - parseNoteDay(previous.start)! + 1;
+
+		// Symptom days and mean severity against the previous period
+		const symptomStats = (list: HealthEntry[], symptom: string) => {
+			const points = symptomSeverityTimeline(list, symptom);
+			const rated = points.map(point => point.severity).filter((value): value is number => value !== null);
+			return { days: points.length, severity: rated.length > 0 ? rated.reduce((sum, v) => sum + v, 0) / rated.length : undefined };
+		};
+		const formatSeverity = (value?: number) => value !== undefined ? `${value.toFixed(1)}/10` : '–';
+		const symptoms = Array.from(new Set([...current, ...before].flatMap(entry => entry.parsed.symptoms.map(itemName))))
+			.map(symptom => ({ symptom, now: symptomStats(current, symptom), then: symptomStats(before, symptom) }))
+			.sort((a, b) => b.now.days - a.now.days || b.then.days - a.then.days || a.symptom.localeCompare(b.symptom));
+		const symptomTable = symptoms.length === 0 ? 'No symptoms logged in either period.' : [
+			'| Symptom | Days | Previous | Mean severity | Previous |',
+			'| --- | --- | --- | --- | --- |',
+			...symptoms.map(({ symptom, now, then }) => `| ${escapeTableCell(symptom)} | ${now.days} | ${then.days} | ${formatSeverity(now.severity)} | ${formatSeverity(then.severity)} |`)
+		].join('\n');
+
+		// Associations over all data up to the end of each period, so one week's notes don't stand alone
+		const key = (assoc: TemporalAssociation) => `${assoc.trigger.type}:${assoc.trigger.name}→${assoc.symptom}`;
+		const compare = compareAssociations(this.settings.associationSort);
+		const associations = this.analyzeAssociations(entries, this.settings.analysisStartDate, period.end).sort(compare);
+		const earlier = new Map(this.analyzeAssociations(entries, this.settings.analysisStartDate, previous.end).map(assoc => [key(assoc), assoc]));
+		const describe = (assoc: TemporalAssociation) => `${assoc.trigger.name} (${assoc.trigger.type}) → ${assoc.symptom}: `
+			+ `${assoc.totalCount}/${assoc.exposureDays} days, lift ${assoc.lift.toFixed(2)}×, p = ${formatPValue(assoc.pValue)}`;
+		const changes: string[] = [];
+		for (const assoc of associations) {
+			const was = earlier.get(key(assoc));
+			if (!was) {
+				changes.push(`- New: ${describe(assoc)}`);
+			} else if (assoc.pValue < was.pValue && assoc.lift >= was.lift * 1.1) {
+				changes.push(`- Stronger: ${describe(assoc)} (was lift ${was.lift.toFixed(2)}×, p = ${formatPValue(was.pValue)})`);
+			}
+		}
+
+		// Triggers logged this period, ranked by their strongest association
+		const triggerDays = new Map<string, Set<number | null>>();
+		for (const entry of current) {
+			for (const trigger of this.entryTriggers(entry)) {
+				const name = `${trigger.type}:${itemName(trigger.item)}`;
+				if (!triggerDays.has(name)) triggerDays.set(name, new Set());
+				triggerDays.get(name)!.add(entry.day);
+			}
+		}
+		const topTriggers: string[] = [];
+		const listed = new Set<string>();
+		for (const assoc of associations) {
+			const name = `${assoc.trigger.type}:${assoc.trigger.name}`;
+			if (listed.has(name) || !triggerDays.has(name)) continue;
+			listed.add(name);
+			const days = triggerDays.get(name)!.size;
+			topTriggers.push(`- ${assoc.trigger.name} (${assoc.trigger.type}), logged on ${days} ${days === 1 ? 'day' : 'days'}: `
+				+ `${assoc.symptom} on ${assoc.totalCount}/${assoc.exposureDays} days overall, lift ${assoc.lift.toFixed(2)}×, p = ${formatPValue(assoc.pValue)}`);
+			if (topTriggers.length === 5) break;
+		}
+
+		const template = this.settings.summaryTemplate.trim()
+			? this.app.metadataCache.getFirstLinkpathDest(this.settings.summaryTemplate.trim(), '')
+			: null;
+		const values: Record<string, string> = {
+			period: dateRange(period),
+			previousPeriod: dateRange(previous),
+			loggedDays: `${loggedDays(current)} of ${last - first + 1} (previous period: ${loggedDays(before)} of ${previousDays})`,
+			missingDays: missing.length > 0 ? missing.join(', ') : 'none',
+			symptoms: symptomTable,
+			associations: changes.length > 0 ? changes.slice(0, 10).join('\n') : 'None this period.',
+			topTriggers: topTriggers.length > 0 ? topTriggers.join('\n') : 'No triggers with an association were logged this period.'
+		};
+		const date = moment(period.start);
+		const title = notePath.split('/').pop()!.replace(/\.md$/, '');
+		return applyDateTemplate(template ? await this.app.vault.read(template) : DEFAULT_SUMMARY_TEMPLATE, date, 'YYYY-MM-DD', title)
+			.replace(/{{\s*(\w+)\s*}}/g, (match, name: string) => values[name] ?? match);
+	}
+
+	async writePeriodicSummary(period: SummaryPeriod, open: boolean = true): Promise<boolean> {
+		try {
+			const entries = await this.collectHealthEntries();
+			if (!entries) return false;
+
+			const file = await this.getPeriodicNote(period);
+			const summary = await this.buildPeriodicSummary(entries, period, file.path);
+			const content = await this.app.vault.read(file);
+			await this.app.vault.modify(file, replaceSection(content, this.settings.summaryHeading || 'Health summary', summary));
+			if (open) {
+				await this.app.workspace.openLinkText(file.path, '', false);
+			} else {
+				new Notice(`Wrote health summary for ${period.label} to ${file.basename}`);
+			}
+			return true;
+		} catch (error) {
+			console.error('Failed to write periodic summary:', error);
+			new Notice('Failed to write health summary. Check console for details.');
+			return false;
+		}
+	}
+
+	async writeScheduledSummaries() {
+		// Each finished week or month is summarized once, on the first startup after it ends
+		const kinds: SummaryPeriodKind[] = [];
+		if (this.settings.scheduleWeeklySummary) kinds.push('weekly');
+		if (this.settings.scheduleMonthlySummary) kinds.push('monthly');
+		for (const kind of kinds) {
+			const period = summaryPeriod(kind, moment().subtract(1, kind === 'weekly' ? 'week' : 'month'));
+			const last = kind === 'weekly' ? this.settings.lastWeeklySummary : this.settings.lastMonthlySummary;
+			if (last === period.start) continue;
+			if (!(await this.writePeriodicSummary(period, false))) continue;
+			if (kind === 'weekly') {
+				this.settings.lastWeeklySummary = period.start;
+			} else {
+				this.settings.lastMonthlySummary = period.start;
+			}
+			await this.saveSettings();
+		}
+	}
+
+	chooseSummaryPeriod(kind: SummaryPeriodKind) {
+		// The running period and the eleven before it, most recent first
+		const periods: SummaryPeriod[] = [summaryPeriod(kind, moment())];
+		while (periods.length < 12) periods.push(previousSummaryPeriod(periods[periods.length - 1]));
+		new SummaryPeriodSuggestModal(this.app, periods, period => this.writePeriodicSummary(period)).open();
+	}
+
+	currentEntries(): HealthEntry[] {
+		// Parsed entries in date order; the last analysis stands in until the index is built
+		return this.index.size > 0 ? Array.from(this.index.values()).sort(compareEntries) : this.lastResults?.entries || [];
+	}
+
+	knownItems(categories: Array<keyof ParsedHealthData>): KnownItem[] {
+		// Names seen so far, for autocomplete
+		return collectKnownItems(this.currentEntries(), categories);
+	}
+
+	createApi(): HealthLogApi {
+		return {
+			version: 1,
+			isIndexReady: () => this.indexReady,
+			getEntries: (from, to) => filterEntriesByDateRange(this.currentEntries(), from, to),
+			getEntry: (path) => this.index.get(path)
+				|| this.lastResults?.entries.find(entry => entry.fileName === path)
+				|| null,
+			getAssociations: (options = {}) => {
+				// Undefined options fall back to the defaults; name filters match like code blocks
+				const defined = Object.fromEntries(
+					Object.entries(options).filter(([, value]) => value !== undefined)
+				) as AssociationQueryOptions;
+				return this.queryAssociations({
+					minCount: 0,
+					sort: this.settings.associationSort,
+					output: 'table',
+					limit: Infinity,
+					...defined,
+					trigger: defined.trigger?.toLowerCase(),
+					symptom: defined.symptom?.toLowerCase()
+				}).associations;
+			},
+			parseText: async (text, date = moment().format('YYYY-MM-DD')) => {
+				const parsed = this.settings.useLLM
+					? await this.parseHealthLogWithLLM(text, date)
+					: this.parseHealthLogRuleBased(text);
+				return this.normalizeParsedData(parsed);
+			},
+			onIndexChanged: (callback) => {
+				const workspace = this.app.workspace as Events;
+				const ref = workspace.on('health-log-analyzer:index-changed', callback);
+				return () => workspace.offref(ref);
+			}
+		};
+	}
+
+	queryAssociations(query: HealthLogQuery): { entries: HealthEntry[]; associations: TemporalAssociation[] } {
+		// Scores only the queried period, so embedded results match the dashboard for the same range
+		const from = query.from || this.settings.analysisStartDate;
+		const to = query.to || this.settings.analysisEndDate;
+		const entries = filterEntriesByDateRange(this.currentEntries(), from, to);
+		// Blocks over the same range share one scoring run until the index changes
+		const key = `${from}|${to}`;
+		let scored = this.associationCache.get(key);
+		if (!scored) {
+			scored = this.analyzeAssociations(entries);
+			this.associationCache.set(key, scored);
+		}
+		const associations = scored
+			.filter(assoc => !query.trigger || assoc.trigger.name.toLowerCase().includes(query.trigger))
+			.filter(assoc => !query.triggerType || assoc.trigger.type === query.triggerType)
+			.filter(assoc => !query.symptom || assoc.symptom.toLowerCase().includes(query.symptom))
+			.filter(assoc => assoc.totalCount >= query.minCount)
+			.sort(compareAssociations(query.sort))
+			.slice(0, query.limit);
+		return { entries, associations };
+	}
+
+	isInHealthLogSection(editor: Editor, line: number): boolean {
+		// Mirrors the section extraction for the configured source, looking upwards from `line`
+		if (this.settings.healthLogSource === 'callout') {
+			const types = this.settings.healthLogCalloutTypes.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+			for (let i = line; i >= 0; i--) {
+				const text = editor.getLine(i);
+				if (!/^\s*>/.test(text)) return false;
+				const callout = text.match(/^\s*>\s?\[!([^\]]+)\]/);
+				if (callout) return i < line && types.includes(callout[1].trim().toLowerCase());
+			}
+			return false;
+		}
+
+		if (this.settings.healthLogSource === 'frontmatter') {
+			if (editor.getLine(0).trim() !== '---') return false;
+			for (let i = line; i > 0; i--) {
+				const text = editor.getLine(i);
+				if (text.trim() === '---') return false;
+				const key = text.match(/^([^\s#-][^:]*):/);
+				if (key) return i < line && key[1].trim() === this.settings.healthLogFrontmatterField;
+			}
+			return false;
+		}
+
+		// Inside a matching heading, or a sub-heading of one
+		const matches = createHeadingMatcher(this.settings.healthLogHeadings);
+		let level = 7;
+		for (let i = line - 1; i >= 0; i--) {
+			const heading = editor.getLine(i).match(/^(#{1,6})\s+(.+)$/);
+			if (!heading || heading[1].length >= level) continue;
+			if (matches(heading[2].trim())) return true;
+			level = heading[1].length;
+		}
+		return false;
+	}
+
+	isDailyNote(file: TFile): boolean {
+		if (file.extension !== 'md') return false;
+		if (this.settings.useDateRegex) {
+			// Match files by date regex pattern
+			const regex = new RegExp(this.settings.dateRegexPattern);
+			return regex.test(file.basename);
+		}
+		// Match files by tag
+		const cache = this.app.metadataCache.getFileCache(file);
+		return cache?.tags?.some(tag => tag.tag === this.settings.dailyNoteTag) ?? false;
+	}
+
+	async extractHealthEntries(files: TFile[]): Promise<HealthEntry[]> {
+		// Cancelling aborts in-flight LLM requests instead of waiting for them
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		const signal = abortController.signal;
+
+		// Create persistent notice with cancel button
+		const fragment = document.createDocumentFragment();
+		const noticeEl = document.createElement('div');
+		noticeEl.style.display = 'flex';
+		noticeEl.style.alignItems = 'center';
+		noticeEl.style.gap = '10px';
+		noticeEl.style.width = '100%';
+
+		const messageEl = document.createElement('span');
+		noticeEl.appendChild(messageEl);
+
+		const cancelBtn = document.createElement('button');
+		cancelBtn.textContent = 'Cancel';
+		cancelBtn.style.marginLeft = 'auto';
+		cancelBtn.addEventListener('click', () => {
+			abortController.abort();
+			cancelBtn.disabled = true;
+			cancelBtn.textContent = 'Cancelling...';
+		});
+		noticeEl.appendChild(cancelBtn);
+
+		fragment.appendChild(noticeEl);
+
+		const notice = new Notice(fragment, 0); // 0 = persistent
+
+		const updateNotice = (message: string) => {
+			messageEl.textContent = message;
+		};
+
+		try {
+			const stats = await this.indexFiles(files, signal, progress => {
+				if (progress.phase === 'reading') {
+					updateNotice(`Reading ${files.length} daily notes...`);
+				} else {
+					const eta = progress.etaMinutes !== undefined ? formatMinutes(progress.etaMinutes) : '…';
+					updateNotice(`Parsing ${progress.completed}/${progress.total} (${progress.cached} cached, ${progress.failed} failed) · ETA ${eta}`);
+				}
+			});
+
+			if (!signal.aborted) {
+				// A completed pass over every daily note leaves the index current
+				this.indexReady = true;
+				this.indexSettingsKey = this.currentIndexSettingsKey();
+				this.notifyIndexChanged();
+				this.updateStatusBar();
+			}
+
+			if (signal.aborted) {
+				updateNotice(`Cancelled after parsing ${stats.parsedCount}/${stats.pendingCount} files (${stats.cachedCount} cached)`);
+				setTimeout(() => notice.hide(), 3000);
+			} else {
+				updateNotice(`✓ Analysis complete! ${stats.cachedCount} from cache, ${stats.parsedCount} newly parsed.`);
+				setTimeout(() => notice.hide(), 3000);
+			}
+
+			if (stats.failedFiles.length > 0) {
+				new Notice(
+					`LLM parsing failed for ${stats.failedFiles.length} note(s); rule-based results were used and they will be retried next run: `
+					+ `${stats.failedFiles.slice(0, 5).join(', ')}${stats.failedFiles.length > 5 ? ', ...' : ''}`,
+					10000
+				);
+			}
+
+		} catch (error) {
+			updateNotice(`❌ Error during analysis: ${error.message}`);
+			setTimeout(() => notice.hide(), 5000);
+			throw error;
+		} finally {
+			if (this.abortController === abortController) {
+				this.abortController = null;
+			}
+		}
+
+		return files
+			.map(file => this.index.get(file.path))
+			.filter((entry): entry is HealthEntry => entry !== undefined)
+			.sort(compareEntries);
+	}
+
+	async indexFiles(files: TFile[], signal: AbortSignal, onProgress?: (progress: IndexProgress) => void): Promise<IndexRunStats> {
+		// Reads and parses `files`, updating the in-memory index and the cache.
+		// Shared by foreground analysis and background indexing.
+		const pending: Array<{ file: TFile; content: string; hash: string }> = [];
+		const parser = this.parserSignature();
+		const stats: IndexRunStats = { cachedCount: 0, parsedCount: 0, pendingCount: 0, failedFiles: [] };
+
+		const toEntry = (file: TFile, parsed: ParsedHealthData, healthLogContent: string): HealthEntry | null => {
+			// Corrections from the review view apply to whichever parse is current
+			parsed = applyOverrides(parsed, this.overrides[file.path] || []);
+			// Only add entry if we found at least something
+			if (Object.values(parsed).every(items => items.length === 0)) {
+				return null;
+			}
+			const noteDate = this.resolveNoteDate(file);
+			return {
+				date: noteDate.date,
+				day: noteDate.day,
+				fileName: file.path,
+				parsed: this.normalizeParsedData(parsed),
+				rawContent: healthLogContent
+			};
+		};
+		const setEntry = (file: TFile, entry: HealthEntry | null) => {
+			if (entry) {
+				this.index.set(file.path, entry);
+			} else {
+				this.index.delete(file.path);
+			}
+		};
+
+		// Reading is cheap, so resolve cache hits up front and queue the rest
+		onProgress?.({ phase: 'reading', completed: 0, total: files.length, cached: 0, failed: 0 });
+		this.pruneCache();
+		for (const file of files) {
+			if (signal.aborted) break;
+			const content = await this.app.vault.cachedRead(file);
+			const healthLogContent = this.extractHealthLogSection(content);
+			if (!healthLogContent) {
+				this.index.delete(file.path);
+				continue;
+			}
+
+			const hash = hashString(`${parser}\n${healthLogContent}`);
+			const cachedEntry = this.getCachedParse(file, hash);
+			if (cachedEntry) {
+				setEntry(file, toEntry(file, cachedEntry.parsed, healthLogContent));
+				stats.cachedCount++;
+			} else {
+				pending.push({ file, content: healthLogContent, hash });
+			}
+		}
+		stats.pendingCount = pending.length;
+
+		const startedAt = Date.now();
+		const waitForSlot = createRateLimiter(this.settings.llmRequestsPerMinute);
+		const concurrency = this.settings.useLLM ? this.settings.parseConcurrency : 1;
+		let completed = 0;
+		let checkpoint: Promise<void> = Promise.resolve();
+
+		const reportProgress = () => {
+			const elapsed = Date.now() - startedAt;
+			const remaining = pending.length - completed;
+			onProgress?.({
+				phase: 'parsing',
+				completed,
+				total: pending.length,
+				cached: stats.cachedCount,
+				failed: stats.failedFiles.length,
+				etaMinutes: completed > 0 ? (elapsed / completed) * remaining / 60000 : undefined
+			});
+		};
+		if (pending.length > 0) reportProgress();
+
+		await runWithConcurrency(pending, concurrency, signal, async ({ file, content, hash }) => {
+			let parsed: ParsedHealthData;
+			let failure: string | undefined;
+
+			if (this.settings.useLLM) {
+				try {
+					parsed = await this.parseHealthLogWithLLM(content, file.basename, signal, waitForSlot);
+				} catch (error) {
+					// Cancelled requests are left uncached so they run again next time
+					if (signal.aborted) return;
+					console.error(`Failed to parse ${file.basename} with LLM:`, error);
+					// Analyze with the rule-based result for now, but don't trust it as an LLM parse
+					failure = error.message;
+					stats.failedFiles.push(file.basename);
+					parsed = this.parseHealthLogRuleBased(content);
+				}
+			} else {
+				parsed = this.parseHealthLogRuleBased(content);
+			}
+
+			// Update cache
+			this.cache.entries[file.path] = {
+				fileName: file.path,
+				hash: hash,
+				parser: parser,
+				parsed: parsed,
+				status: failure ? 'failed' : 'ok',
+				error: failure
+			};
+			setEntry(file, toEntry(file, parsed, content));
+			stats.parsedCount++;
+			completed++;
+			reportProgress();
+
+			// Periodic checkpoints so a crash or reload doesn't lose a long run
+			if (completed % this.settings.cacheCheckpointInterval === 0) {
+				checkpoint = checkpoint.then(() => this.saveCache());
+			}
+		});
+
+		await checkpoint;
+		// Save cache after processing all files
+		await this.saveCache();
+
+		return stats;
+	}
+
+	async rebuildIndex() {
+		// Full background pass; afterwards only changed notes are re-read
+		this.indexAbort?.abort();
+		const abortController = new AbortController();
+		this.indexAbort = abortController;
+
+		try {
+			const files = await this.findDailyNotes();
+			const known = new Set(files.map(file => file.path));
+			for (const path of Array.from(this.index.keys())) {
+				if (!known.has(path)) this.index.delete(path);
+			}
+
+			const key = this.currentIndexSettingsKey();
+			await this.indexFiles(files, abortController.signal, progress => {
+				if (progress.phase === 'parsing') {
+					this.updateStatusBar(`indexing ${progress.completed}/${progress.total}`);
+				}
+			});
+			if (!abortController.signal.aborted) {
+				this.indexReady = true;
+				this.indexSettingsKey = key;
+				this.notifyIndexChanged();
+			}
+		} catch (error) {
+			console.error('Background indexing failed:', error);
+		} finally {
+			if (this.indexAbort === abortController) {
+				this.indexAbort = null;
+			}
+			this.updateStatusBar();
+		}
+	}
+
+	queueIndexUpdate(file: TAbstractFile) {
+		if (!this.settings.backgroundIndexing || !(file instanceof TFile) || file.extension !== 'md') return;
+		this.pendingIndexPaths.add(file.path);
+		this.updateStatusBar(`${this.pendingIndexPaths.size} pending`);
+		this.requestIndexFlush();
+	}
+
+	async flushIndexQueue(): Promise<void> {
+		// Serialize flushes so a note is never parsed twice at once
+		this.indexFlush = this.indexFlush.then(async () => {
+			if (this.pendingIndexPaths.size === 0) return;
+			const paths = Array.from(this.pendingIndexPaths);
+			this.pendingIndexPaths.clear();
+
+			const files: TFile[] = [];
+			for (const path of paths) {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile && this.isDailyNote(file)) {
+					files.push(file);
+				} else {
+					this.index.delete(path);
+				}
+			}
+
+			try {
+				await this.indexFiles(files, this.incrementalAbort.signal, progress => {
+					if (progress.phase === 'parsing') {
+						this.updateStatusBar(`indexing ${progress.completed}/${progress.total}`);
+					}
+				});
+				this.warnEliminationExposures(files
+					.map(file => this.index.get(file.path))
+					.filter((entry): entry is HealthEntry => entry !== undefined));
+			} catch (error) {
+				console.error('Incremental indexing failed:', error);
+			}
+			this.notifyIndexChanged();
+			this.updateStatusBar();
+		});
+		return this.indexFlush;
+	}
+
+	notifyIndexChanged() {
+		this.associationCache.clear();
+		this.app.workspace.trigger('health-log-analyzer:index-changed');
+	}
+
+	updateStatusBar(activity?: string) {
+		if (!this.statusBarEl) return;
+		if (!this.settings.backgroundIndexing) {
+			this.statusBarEl.setText('');
+			return;
+		}
+		this.statusBarEl.setText(activity
+			? `Health log: ${activity}`
+			: `Health log: ${this.index.size} entries${this.indexReady ? '' : ' (indexing…)'}`);
+	}
+
+	extractHealthLogSection(content: string): string | null {
+		// Collect every matching section and merge them; the parsers treat the
+		// separator as a boundary for category and time-of-day context
+		let sections: string[];
+		switch (this.settings.healthLogSource) {
+			case 'callout':
+				sections = this.extractCalloutSections(content);
+				break;
+			case 'frontmatter':
+				sections = this.extractFrontmatterSection(content);
+				break;
+			default:
+				sections = this.extractHeadingSections(content);
+		}
+
+		sections = sections.filter(section => section.trim().length > 0);
+		return sections.length > 0 ? sections.join(SECTION_SEPARATOR) : null;
+	}
+
+	extractHeadingSections(content: string): string[] {
+		// Each matching heading runs until the next heading of the same or higher level
+		const matches = createHeadingMatcher(this.settings.healthLogHeadings);
+		const sections: string[] = [];
+		let current: string[] | null = null;
+		let headingLevel = 0;
+
+		for (const line of content.split('\n')) {
+			const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+
+			if (headingMatch) {
+				const level = headingMatch[1].length;
+				const title = headingMatch[2].trim();
+
+				if (current && level <= headingLevel) {
+					sections.push(current.join('\n'));
+					current = null;
+				}
+				if (!current && matches(title)) {
+					current = [];
+					headingLevel = level;
+					continue;
+				}
+			}
+
+			if (current) {
+				current.push(line);
+			}
+		}
+		if (current) sections.push(current.join('\n'));
+
+		return sections;
+	}
+
+	extractCalloutSections(content: string): string[] {
+		// "> [!health] Optional title" followed by quoted lines
+		const types = new Set(this.settings.healthLogCalloutTypes.split(',').map(t => t.trim().toLowerCase()).filter(Boolean));
+		const sections: string[] = [];
+		let current: string[] | null = null;
+
+		for (const line of content.split('\n')) {
+			const quoted = line.match(/^\s*>\s?(.*)$/);
+			const callout = quoted?.[1].match(/^\[!([^\]]+)\][+-]?\s*(.*)$/);
+
+			if (callout) {
+				if (current) sections.push(current.join('\n'));
+				current = types.has(callout[1].trim().toLowerCase()) ? [] : null;
+				continue;
+			}
+			if (!quoted) {
+				if (current) sections.push(current.join('\n'));
+				current = null;
+				continue;
+			}
+			if (current) {
+				current.push(quoted[1]);
+			}
+		}
+		if (current) sections.push(current.join('\n'));
+
+		return sections;
+	}
+
+	extractFrontmatterSection(content: string): string[] {
+		// A frontmatter list (or single string) becomes one list item per value
+		const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+		if (!frontmatter) return [];
+
+		let data: unknown;
+		try {
+			data = parseYaml(frontmatter[1]);
+		} catch (error) {
+			return [];
+		}
+		if (!data || typeof data !== 'object') return [];
+
+		const value = (data as Record<string, unknown>)[this.settings.healthLogFrontmatterField];
+		const items = Array.isArray(value) ? value : value ? [value] : [];
+		const lines = items
+			.filter(item => typeof item === 'string' || typeof item === 'number')
+			.map(item => `- ${String(item).trim()}`);
+		return lines.length > 0 ? [lines.join('\n')] : [];
+	}
+
+	parseHealthLogRuleBased(content: string): ParsedHealthData {
+		// Deterministic parser used when LLM parsing is disabled or unavailable.
+		// Handles categorized lists, inline categories, narrative entries and
+		// free-form sentences, in that order of precedence.
+		const parsed = emptyParsedData();
+		let category: HealthCategory | null = null;
+		let categoryLevel = 7; // Heading level the category was set by; 7 for "Foods:" labels
+		// Time of day from sub-headings like "### Breakfast", with the heading's level
+		let sectionTime: { time: string; level: number; meal: boolean } | null = null;
+
+		for (const rawLine of content.split('\n')) {
+			let line = rawLine.trim();
+			if (!line) continue;
+			if (/^(?:-{3,}|\*{3,}|_{3,})$/.test(line)) {
+				// Thematic breaks separate merged sections
+				category = null;
+				sectionTime = null;
+				continue;
+			}
+
+			// Category labels: "Foods:", "*Symptoms*", "### Supplements"
+			const headingLevel = line.match(/^(#{1,6})\s+/)?.[1].length || 0;
+			const isHeading = headingLevel > 0;
+			const labelMatch = line.match(/^(?:#{1,6}\s+)?[*_]*\s*([a-z ]+?)\s*[*_]*\s*:?\s*[*_]*$/i);
+			const labelCategory = labelMatch ? this.labelToCategory(labelMatch[1]) : null;
+			if (isHeading) {
+				if (sectionTime && headingLevel <= sectionTime.level) sectionTime = null;
+				const title = line.replace(/^#{1,6}\s+/, '');
+				const headingTime = labelCategory ? null : headingTimeContext(title);
+				if (headingTime) {
+					// "### Breakfast" under "## Foods" only adds the time; the list stays foods
+					sectionTime = { time: headingTime, level: headingLevel, meal: MEAL_HEADING_PATTERN.test(title) };
+					if (headingLevel <= categoryLevel) category = null;
+				} else {
+					category = labelCategory;
+					categoryLevel = headingLevel;
+				}
+				continue;
+			}
+			if (labelCategory) {
+				category = labelCategory;
+				categoryLevel = 7;
+				continue;
+			}
+
+			const isListItem = /^(?:[-*+]|\d+[.)])\s+/.test(line);
+			line = line.replace(/^(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, '');
+
+			// Leading timestamps: "8:30 - Coffee", "2pm: headache"
+			let time = sectionTime?.time;
+			const timeMatch = line.match(LEADING_TIME_PATTERN);
+			if (timeMatch) {
+				time = timeMatch[1];
+				line = line.slice(timeMatch[0].length);
+			}
+
+			// Inline categories: "- Food: Pizza"
+			const inlineMatch = line.match(/^[*_]*([a-z]+)[*_]*\s*:\s*(.+)$/i);
+			const inlineCategory = inlineMatch ? this.labelToCategory(inlineMatch[1]) : null;
+			if (inlineMatch && inlineCategory) {
+				// "Stress: 7/10" needs the label to know what is being rated
+				this.categorizeAndAddItem(parsed, inlineCategory, inlineCategory === 'mood' ? line : inlineMatch[2], time);
+				continue;
+			}
+
+			// Behavior lists often hold narrative lines: "Took ibuprofen — headache gone"
+			const narrativeBehavior = category === 'behavior'
+				&& (NARRATIVE_SEPARATOR.test(line) || FOOD_VERBS.test(line) || SUPPLEMENT_VERBS.test(line));
+			if (narrativeBehavior && this.parseNarrativeEntry(parsed, line, time, 'behavior')) {
+				continue;
+			}
+
+			if (category) {
+				this.categorizeAndAddItem(parsed, category, line, time);
+				continue;
+			}
+
+			// Free-form paragraphs are split into sentences; list items are kept whole
+			const clauses = isListItem ? [line] : line.split(/[.!?]+(?:\s+|$)/);
+			for (const clause of clauses.flatMap(c => c.split(/\s+and\s+(?=(?:had|felt|got)\b)/i))) {
+				if (!clause.trim()) continue;
+				if (this.parseNarrativeEntry(parsed, clause, time)) continue;
+				// Unrecognized items under a meal heading are what was eaten: "### Lunch" / "- Pizza"
+				const eaten = sectionTime?.meal && isListItem && !this.detectCategory(clause)
+					&& !NEGATION_PATTERN.test(clause) && !POSITIVE_OUTCOME_PATTERN.test(clause);
+				this.categorizeAndAddItem(parsed, eaten ? 'food' : 'other', clause, time);
+			}
+		}
+
+		return parsed;
+	}
+
+	labelToCategory(label: string): HealthCategory | null {
+		const normalized = label.trim().toLowerCase();
+		if (/^(?:foods?|meals?|diet|drinks?|food and drinks?)$/.test(normalized)) return 'food';
+		if (/^(?:supplements?|vitamins?)$/.test(normalized)) return 'supplement';
+		if (/^(?:meds?|medications?|medicines?|prescriptions?|drugs)$/.test(normalized)) return 'medication';
+		if (/^(?:exercise|workouts?|activity|activities|movement)$/.test(normalized)) return 'exercise';
+		if (/^(?:sleep|naps?)$/.test(normalized)) return 'sleep';
+		if (/^(?:mood|stress|stress level|energy|energy level|anxiety level)$/.test(normalized)) return 'mood';
+		if (/^(?:hydration|water|fluids?|water intake)$/.test(normalized)) return 'hydration';
+		if (/^(?:behaviou?rs?|habits?)$/.test(normalized)) return 'behavior';
+		if (/^(?:symptoms?|feelings?|reactions?)$/.test(normalized)) return 'symptom';
+		return null;
+	}
+
+	parseNarrativeEntry(parsed: ParsedHealthData, text: string, time?: string, fallbackCategory: HealthCategory = 'food'): boolean {
+		// "Ate X, Y, and Z — symptom 30min later"
+		const separator = text.match(NARRATIVE_SEPARATOR);
+		const triggerPart = separator ? text.slice(0, separator.index) : text;
+		const outcomePart = separator ? text.slice(separator.index! + separator[0].length) : '';
+
+		const extracted = this.extractTime(triggerPart);
+		const triggerTime = extracted.time || time;
+		const triggerText = extracted.text.trim();
+
+		// "had a headache" and "had a stressful day" read like food verbs but are not
+		const foodVerb = (separator || !SYMPTOM_PATTERN.test(triggerText)) && !MOOD_PATTERN.test(triggerText)
+			? triggerText.match(FOOD_VERBS)
+			: null;
+		const supplementVerb = triggerText.match(SUPPLEMENT_VERBS);
+		if (foodVerb) {
+			for (const item of this.extractItemList(triggerText.slice(foodVerb[0].length))) {
+				this.categorizeAndAddItem(parsed, 'food', item, triggerTime);
+			}
+		} else if (supplementVerb) {
+			for (const item of this.extractItemList(triggerText.slice(supplementVerb[0].length))) {
+				this.categorizeAndAddItem(parsed, 'supplement', item, triggerTime);
+			}
+		} else if (SLEEP_PATTERN.test(triggerText)) {
+			this.categorizeAndAddItem(parsed, 'sleep', triggerText, triggerTime);
+		} else if (MOOD_PATTERN.test(triggerText)) {
+			this.categorizeAndAddItem(parsed, 'mood', triggerText, triggerTime);
+		} else if (EXERCISE_PATTERN.test(triggerText)) {
+			this.categorizeAndAddItem(parsed, 'exercise', triggerText, triggerTime);
+		} else if (separator && triggerText && fallbackCategory !== 'food') {
+			this.categorizeAndAddItem(parsed, fallbackCategory, triggerText, triggerTime);
+		} else if (separator && triggerText) {
+			// "Pizza — reflux": a bare list before the separator is treated as food
+			for (const item of this.extractItemList(triggerText)) {
+				this.categorizeAndAddItem(parsed, 'food', item, triggerTime);
+			}
+		} else {
+			return false;
+		}
+
+		for (const segment of outcomePart.split(/[,;]\s*/)) {
+			if (!segment.trim()) continue;
+			if (SYMPTOM_PATTERN.test(segment) || NEGATION_PATTERN.test(segment.trim()) || POSITIVE_OUTCOME_PATTERN.test(segment.trim())) {
+				this.categorizeAndAddItem(parsed, 'symptom', segment);
+			}
+		}
+
+		return true;
+	}
+
+	addAbsence(parsed: ParsedHealthData, text: string, time?: string): boolean {
+		// Timing is stripped first so "no reflux after dinner" rules out "reflux";
+		// false when no symptom is named, as in "no energy"
+		const timed = this.extractTime(this.extractOnset(text).text);
+		const symptom = absentSymptom(timed.text);
+		if (symptom) {
+			parsed.absentSymptoms.push(this.compactItem({ description: symptom, time: timed.time || time }));
+		}
+		return symptom !== null;
+	}
+
+	extractItemList(text: string): string[] {
+		// "eggs, feta, dried mango, bread, and pistachios" → individual items
+		return text
+			.split(/\s*,\s*(?:and\s+|&\s+)?|\s+and\s+|\s*&\s*|\s+\+\s+/i)
+			.map(item => item.replace(/^(?:some|a|an|the)\s+/i, '').trim())
+			.filter(item => item.length > 0);
+	}
+
+	categorizeAndAddItem(parsed: ParsedHealthData, category: HealthCategory | 'other', text: string, time?: string) {
+		// 'other' is unlabelled free text: kept only when it is recognizable
+		let working = text.trim().replace(/[.;,]+$/, '');
+		if (!working) return;
+
+		if (category === 'symptom' || category === 'behavior' || category === 'other') {
+			// "No headache today" and "felt great" are outcomes, not symptoms
+			if (NEGATION_PATTERN.test(working) && this.addAbsence(parsed, working, time)) {
+				return;
+			}
+			if (POSITIVE_OUTCOME_PATTERN.test(working)) {
+				if (!SYMPTOM_PATTERN.test(working.replace(/\bsymptom[- ]free\b/gi, ''))) {
+					const timed = this.extractTime(working);
+					const description = timed.text.replace(/\s+today$/i, '').trim();
+					parsed.positiveOutcomes.push(this.compactItem({ description, time: timed.time || time }));
+					return;
+				}
+				// "Feeling better but still nauseous": each part on its own, so the symptom is kept
+				const parts = working.split(/\s*,?\s*\b(?:but|until|then|though|although)\b\s*/i).filter(part => part.trim());
+				if (parts.length > 1) {
+					for (const part of parts) this.categorizeAndAddItem(parsed, category, part, time);
+					return;
+				}
+			}
+		}
+
+		if (category === 'behavior' || category === 'other') {
+			const detected = this.detectCategory(working);
+			if (detected) {
+				category = detected;
+			} else if (category === 'other') {
+				return;
+			}
+		}
+
+		if (category === 'sleep') {
+			const timed = this.extractTime(working);
+			const duration = timed.text.match(/\b\d+(?:\.\d+)?\s*-?\s*(?:h(?:ou)?rs?|hours?|h)\b(?:\s*\d{1,2}\s*m(?:in(?:ute)?s?)?\b)?|\b\d+h\d{2}\b|\b\d+\s*min(?:ute)?s?\b/i);
+			const rating = timed.text.match(/\b\d+(?:\.\d+)?\s*\/\s*(?:10|5)\b/) || timed.text.match(SCALE_WORD_PATTERN);
+			if (!duration && !rating) return;
+			parsed.sleep.push(this.compactItem({
+				duration: duration?.[0].replace(/\s+/g, ' ').trim(),
+				quality: rating?.[0].toLowerCase().replace(/\s+/g, ''),
+				time: timed.time || time
+			}));
+			return;
+		}
+
+		if (category === 'mood') {
+			const timed = this.extractTime(working);
+			const subject = timed.text.match(MOOD_PATTERN);
+			const name = subject
+				? subject[1].toLowerCase().replace(/^stress(?:ed|ful)$/, 'stress').replace(/ level$/, '')
+				: 'mood';
+			const rating = timed.text.match(/\b\d+(?:\.\d+)?\s*\/\s*(?:10|5)\b/) || timed.text.match(SCALE_WORD_PATTERN);
+			// "Stressed at work" has no rating but reads as high stress
+			const level = rating
+				? rating[0].toLowerCase().replace(/\s+/g, '')
+				: /\bstress(?:ed|ful)\b/i.test(timed.text) ? 'high' : undefined;
+			parsed.mood.push(this.compactItem({ name, level, time: timed.time || time }));
+			return;
+		}
+
+		if (category === 'behavior') {
+			const timed = this.extractTime(working);
+			working = timed.text;
+			let duration: string | undefined;
+			const durationMatch = working.match(/\s*\b(?:for\s+)?(\d+(?:\.\d+)?)\s*-?\s*(min(?:ute)?s?|h(?:ou)?rs?|hours?)\b/i);
+			if (durationMatch) {
+				duration = `${durationMatch[1]} ${durationMatch[2]}`;
+				working = working.replace(durationMatch[0], ' ');
+			}
+			const description = working.replace(/\s+/g, ' ').trim();
+			if (!description) return;
+			parsed.behaviors.push(this.compactItem({ description, duration, time: timed.time || time }));
+			return;
+		}
+
+		if (category === 'symptom') {
+			const onset = this.extractOnset(working);
+			working = onset.text;
+			const timed = this.extractTime(working);
+			working = timed.text;
+
+			let severity: string | undefined;
+			const parenthetical = working.match(/\s*\(([^)]*)\)/);
+			if (parenthetical && SEVERITY_PATTERN.test(parenthetical[1])) {
+				working = working.replace(parenthetical[0], '');
+			}
+			const severityMatch = (parenthetical ? parenthetical[1] : working).match(SEVERITY_PATTERN)
+				|| working.match(SEVERITY_PATTERN);
+			if (severityMatch) {
+				severity = (severityMatch[1] || severityMatch[2]).toLowerCase().replace(/\s+/g, '');
+			}
+
+			const description = working
+				.replace(/^(?:felt|feeling|feel|had|have|got|experienced)\s+(?:an?\s+|some\s+)?/i, '')
+				.trim();
+			if (!description) return;
+
+			parsed.symptoms.push(this.compactItem({
+				description,
+				severity,
+				time: timed.time || time,
+				onset: onset.onset
+			}));
+			return;
+		}
+
+		const timed = this.extractTime(working);
+		working = timed.text;
+		const itemTime = timed.time || time;
+
+		if (category === 'exercise') {
+			let duration: string | undefined;
+			const durationMatch = working.match(/\s*\b(?:for\s+)?(\d+(?:\.\d+)?)\s*-?\s*(min(?:ute)?s?|h(?:ou)?rs?|hours?)\b/i);
+			if (durationMatch) {
+				duration = `${durationMatch[1]} ${durationMatch[2]}`;
+				working = working.replace(durationMatch[0], ' ');
+			}
+			const activity = working
+				.replace(/^(?:did|went for)\s+(?:an?\s+)?/i, '')
+				.replace(/\s+/g, ' ')
+				.trim();
+			parsed.exercise.push(this.compactItem({
+				activity: activity || 'exercise',
+				duration,
+				time: itemTime
+			}));
+			return;
+		}
+
+		// Foods and supplements share dose extraction
+		let dose: string | undefined;
+		const parenthetical = working.match(/\s*\(([^)]*\d[^)]*)\)/);
+		if (parenthetical) {
+			dose = parenthetical[1].trim();
+			working = working.replace(parenthetical[0], '');
+		} else {
+			const quantity = working.match(QUANTITY_PATTERN);
+			if (quantity) {
+				dose = quantity[0].replace(/\s+of$/i, '').trim();
+				working = working.replace(quantity[0], ' ');
+			}
+		}
+
+		const name = working
+			.replace(SUPPLEMENT_VERBS, '')
+			.replace(FOOD_VERBS, '')
+			.replace(/\s+/g, ' ')
+			.trim();
+		if (!name && category !== 'hydration') return;
+
+		const item = this.compactItem({ name: name || 'water', dose, time: itemTime });
+		if (category === 'hydration' || (category === 'food' && HYDRATION_PATTERN.test(name))) {
+			parsed.hydration.push(item);
+		} else if (category === 'medication' || (category === 'supplement' && MEDICATION_PATTERN.test(name))) {
+			parsed.medications.push(item);
+		} else if (category === 'supplement') {
+			parsed.supplements.push(item);
+		} else {
+			parsed.foods.push(item);
+		}
+	}
+
+	detectCategory(text: string): HealthCategory | null {
+		// Sleep and mood first: "slept badly" and "stressed" would otherwise read as symptoms
+		if (SLEEP_PATTERN.test(text)) return 'sleep';
+		if (MOOD_PATTERN.test(text)) return 'mood';
+		if (SYMPTOM_PATTERN.test(text) && !EXERCISE_PATTERN.test(text)) return 'symptom';
+		if (EXERCISE_PATTERN.test(text)) return 'exercise';
+		if (/\b(?:drank|water|hydrat\w*)\b/i.test(text) && parseVolumeLiters(text) !== null) return 'hydration';
+		return null;
+	}
+
+	extractTime(text: string): { text: string; time?: string } {
+		for (const pattern of TIME_PATTERNS) {
+			const match = text.match(pattern);
+			if (match) {
+				return {
+					text: text.replace(match[0], '').trim(),
+					time: match[1].toLowerCase()
+				};
+			}
+		}
+		return { text };
+	}
+
+	extractOnset(text: string): { text: string; onset?: string } {
+		// Use the earliest matching onset phrase so "2 hours later" wins over "later"
+		let best: RegExpMatchArray | null = null;
+		for (const pattern of ONSET_PATTERNS) {
+			const match = text.match(pattern);
+			if (match && (best === null || match.index! < best.index!)) {
+				best = match;
+			}
+		}
+		if (!best) {
+			return { text };
+		}
+		return {
+			text: text.slice(0, best.index).trim(),
+			onset: best[0].trim()
+		};
+	}
+
+	compactItem(item: TimedItem): TimedItem {
+		// Drop undefined fields so cached output matches the LLM's shape
+		const result: TimedItem = {};
+		for (const [key, value] of Object.entries(item)) {
+			if (value !== undefined && value !== '') {
+				(result as Record<string, string>)[key] = value;
+			}
+		}
+		return result;
+	}
+
+	normalizeParsedData(parsed: ParsedHealthData): ParsedHealthData {
+		// Applied after the cache so alias edits take effect without re-parsing.
+		// Raw fields are left untouched; the grouping key goes in `canonical`.
+		const normalizeList = (items: TimedItem[], splitCompounds: boolean): TimedItem[] =>
+			items.flatMap(item => {
+				const raw = item.name || item.activity || item.description || '';
+				return this.normalizeItemName(raw, splitCompounds)
+					.map(canonical => ({ ...item, canonical }));
+			});
+
+		// Categories missing from data parsed by older versions start empty
+		const data = { ...emptyParsedData(), ...parsed };
+		// A model that ignores the prompt may still list "no headache" as a symptom
+		// Only moved when it names what was absent; "no energy" or "not feeling well" stay symptoms
+		const absentName = (item: TimedItem) => NEGATION_PATTERN.test((item.description || '').trim()) ? absentSymptom(item.description!) : null;
+		const negatedSymptoms = data.symptoms.flatMap(item => {
+			const symptom = absentName(item);
+			return symptom ? [this.compactItem({ description: symptom, time: item.time })] : [];
+		});
+		data.symptoms = data.symptoms.filter(item => !absentName(item));
+		data.absentSymptoms = [...data.absentSymptoms, ...negatedSymptoms];
+		return {
+			...data,
+			foods: normalizeList(data.foods, this.settings.splitCompoundFoods),
+			supplements: normalizeList(data.supplements, false),
+			medications: normalizeList(data.medications, false),
+			exercise: normalizeList(data.exercise, false),
+			symptoms: normalizeList(data.symptoms, false).map(item => {
+				const severity = parseSeverity(item.severity) ?? parseSeverity(item.description);
+				return severity !== null ? { ...item, severityScore: severity } : item;
+			}),
+			mood: normalizeList(data.mood, false),
+			hydration: normalizeList(data.hydration, false),
+			behaviors: normalizeList(data.behaviors, false),
+			absentSymptoms: normalizeList(data.absentSymptoms, false),
+			positiveOutcomes: normalizeList(data.positiveOutcomes, false)
+		};
+	}
+
+	normalizeItemName(raw: string, splitCompounds: boolean): string[] {
+		const resolve = (name: string): string => {
+			const cleaned = cleanItemName(name);
+			return this.aliases.get(cleaned) || cleaned;
+		};
+
+		// An alias for the whole phrase wins over splitting it into ingredients
+		const whole = resolve(raw);
+		if (!splitCompounds || this.aliases.has(cleanItemName(raw))) {
+			return whole ? [whole] : [];
+		}
+
+		const parts = raw
+			.split(/\s+(?:with|and|&|\+)\s+|\s*,\s*/i)
+			.map(resolve)
+			.filter(part => part.length > 0);
+		return parts.length > 0 ? Array.from(new Set(parts)) : (whole ? [whole] : []);
+	}
+
+	analyzeAssociations(entries: HealthEntry[], startDate?: string, endDate?: string): TemporalAssociation[] {
+		entries = filterEntriesByDateRange(entries, startDate, endDate);
+		const associationMap = new Map<string, Map<string, TemporalAssociation>>();
+		// Per-day exposure sets: every analyzed day counts, with or without symptoms
+		const triggerDays = new Map<string, Set<string>>();
+		const symptomDays = new Map<string, Set<string>>();
+		const days = new Set<string>();
+
+		const minLag = this.settings.lagWindowMinHours * 60;
+		const maxLag = this.settings.lagWindowMaxHours * 60;
+		const dayNumbers = entries.map(entry => entry.day);
+		const entriesByDay = new Map<number, number[]>();
+		dayNumbers.forEach((day, index) => {
+			if (day === null) return;
+			if (!entriesByDay.has(day)) {
+				entriesByDay.set(day, []);
+			}
+			entriesByDay.get(day)!.push(index);
+		});
+
+		// Daily severity of each symptom, for severity-weighted scores
+		const symptomBurden = new Map<string, Map<string, number>>();
+		// Daily covariate values, averaged when several notes share a date
+		const dailyCovariates = new Map<string, Map<string, { source: TriggerType; values: number[] }>>();
+		// Symptoms explicitly logged as absent each day; ANY_SYMPTOM covers them all
+		const absences = new Map<string, Set<string>>();
+
+		for (const entry of entries) {
+			days.add(entry.date);
+			for (const absence of entry.parsed.absentSymptoms) {
+				if (!absences.has(entry.date)) absences.set(entry.date, new Set());
+				absences.get(entry.date)!.add(coversAllSymptoms(absence) ? ANY_SYMPTOM : itemName(absence));
+			}
+			for (const covariate of this.entryCovariates(entry)) {
+				if (!dailyCovariates.has(entry.date)) dailyCovariates.set(entry.date, new Map());
+				const measures = dailyCovariates.get(entry.date)!;
+				if (!measures.has(covariate.name)) measures.set(covariate.name, { source: covariate.source, values: [] });
+				measures.get(covariate.name)!.values.push(covariate.value);
+			}
+			for (const symptom of entry.parsed.symptoms) {
+				const symptomKey = itemName(symptom);
+				if (!symptomDays.has(symptomKey)) {
+					symptomDays.set(symptomKey, new Set());
+					symptomBurden.set(symptomKey, new Map());
+				}
+				symptomDays.get(symptomKey)!.add(entry.date);
+				// Worst instance per day; unrated symptoms count as moderate
+				const burden = symptomBurden.get(symptomKey)!;
+				burden.set(entry.date, Math.max(burden.get(entry.date) ?? 0, symptom.severityScore ?? DEFAULT_SEVERITY));
+			}
+		}
+
+		entries.forEach((entry, entryIndex) => {
+			const triggers = this.entryTriggers(entry);
+
+			// Notes whose symptoms can still fall inside the lag window
+			const candidateIndexes = [entryIndex];
+			const day = dayNumbers[entryIndex];
+			if (day !== null) {
+				for (let offset = 1; offset * DAY_MINUTES < maxLag + DAY_MINUTES; offset++) {
+					candidateIndexes.push(...(entriesByDay.get(day + offset) || []));
+				}
+			}
+
+			for (const trigger of triggers) {
+				// Extract name from different fields depending on trigger type
+				const triggerName = itemName(trigger.item);
+				const triggerKey = `${trigger.type}:${triggerName}`;
+				const triggerMinute = parseTimeOfDay(trigger.item.time);
+
+				if (!triggerDays.has(triggerKey)) {
+					triggerDays.set(triggerKey, new Set());
+				}
+				triggerDays.get(triggerKey)!.add(entry.date);
+
+				if (!associationMap.has(triggerKey)) {
+					associationMap.set(triggerKey, new Map());
+				}
+
+				const symptomMap = associationMap.get(triggerKey)!;
+
+				for (const symptomIndex of candidateIndexes) {
+					const symptomEntry = entries[symptomIndex];
+
+					for (const symptom of symptomEntry.parsed.symptoms) {
+						const symptomKey = itemName(symptom);
+						const lag = this.measureLag(
+							triggerMinute, day,
+							symptom, dayNumbers[symptomIndex],
+							symptomIndex === entryIndex, minLag, maxLag
+						);
+						if (!lag) continue;
+
+						if (!symptomMap.has(symptomKey)) {
+							symptomMap.set(symptomKey, {
+								trigger: {
+									type: trigger.type,
+									name: triggerName
+								},
+								symptom: symptomKey,
+								occurrences: [],
+								totalCount: 0,
+								percentage: 0,
+								exposureDays: 0,
+								symptomDays: 0,
+								totalDays: 0,
+								baselineRate: 0,
+								unexposedRate: 0,
+								relativeRisk: 0,
+								lift: 0,
+								pValue: 1
+							});
+						}
+
+						const assoc = symptomMap.get(symptomKey)!;
+						const occurrence = {
+							date: entry.date,
+							symptomDate: symptomEntry.date,
+							triggerTime: trigger.item.time,
+							symptomTime: symptom.time,
+							timeLag: symptom.onset,
+							lagMinutes: lag.lagMinutes,
+							severity: symptom.severityScore
+						};
+
+						// One occurrence per trigger day, keeping the closest timed symptom
+						const existing = assoc.occurrences.findIndex(occ => occ.date === entry.date);
+						if (existing === -1) {
+							assoc.occurrences.push(occurrence);
+							assoc.totalCount++;
+						} else if (lag.lagMinutes !== undefined) {
+							const previous = assoc.occurrences[existing].lagMinutes;
+							if (previous === undefined || lag.lagMinutes < previous) {
+								assoc.occurrences[existing] = occurrence;
+							}
+						}
+					}
+				}
+			}
+		});
+
+		// Score each trigger/symptom pair against the per-day 2x2 table
+		const totalDays = days.size;
+		const associations: TemporalAssociation[] = [];
+		for (const [triggerKey, symptomMap] of associationMap) {
+			const exposed = triggerDays.get(triggerKey)!.size;
+
+			for (const assoc of symptomMap.values()) {
+				const withSymptom = symptomDays.get(assoc.symptom)!.size;
+				const a = assoc.totalCount;
+				const b = exposed - a;
+				// Cross-day matches can exceed same-day symptom counts, so clamp at zero
+				const c = Math.max(0, withSymptom - a);
+				const d = Math.max(0, totalDays - exposed - c);
+
+				// Trigger days without the symptom that say so explicitly are stronger
+				// evidence against the pair than silence, so they weigh extra in `b`
+				const matchedDates = new Set(assoc.occurrences.map(occ => occ.date));
+				assoc.symptomFreeDays = Array.from(triggerDays.get(triggerKey)!)
+					.filter(date => !matchedDates.has(date) && isExplicitlyAbsent(absences, date, assoc.symptom))
+					.length;
+				const extra = assoc.symptomFreeDays * (ABSENCE_WEIGHT - 1);
+				const weightedExposed = exposed + extra;
+
+				assoc.exposureDays = exposed;
+				assoc.symptomDays = withSymptom;
+				assoc.totalDays = totalDays;
+				assoc.percentage = (a / exposed) * 100;
+				assoc.baselineRate = withSymptom / totalDays;
+				assoc.unexposedRate = c + d > 0 ? c / (c + d) : 0;
+				assoc.lift = (a / weightedExposed) / assoc.baselineRate;
+
+				// Haldane correction keeps relative risk finite when a cell is empty
+				const correction = (b === 0 || c === 0 || d === 0) ? 0.5 : 0;
+				assoc.relativeRisk = ((a + correction) / (weightedExposed + 2 * correction))
+					/ ((c + correction) / (c + d + 2 * correction));
+				assoc.pValue = fisherExactTest(a, b + extra, c, d);
+				if (extra > 0) {
+					assoc.unweightedLift = (a / exposed) / assoc.baselineRate;
+					assoc.unweightedPValue = fisherExactTest(a, b, c, d);
+				}
+				assoc.lagStats = summarizeLags(assoc.occurrences
+					.map(occ => occ.lagMinutes)
+					.filter((lag): lag is number => lag !== undefined));
+
+				// Severity-weighted rate: mean daily severity on trigger days vs all days
+				const rated = assoc.occurrences
+					.map(occ => occ.severity)
+					.filter((severity): severity is number => severity !== undefined);
+				assoc.meanSeverity = rated.length > 0 ? rated.reduce((sum, s) => sum + s, 0) / rated.length : undefined;
+				const exposedBurden = assoc.occurrences.reduce((sum, occ) => sum + (occ.severity ?? DEFAULT_SEVERITY), 0);
+				const totalBurden = Array.from(symptomBurden.get(assoc.symptom)!.values()).reduce((sum, s) => sum + s, 0);
+				assoc.severityScore = exposedBurden / exposed;
+				assoc.baselineSeverityScore = totalBurden / totalDays;
+				assoc.severityLift = assoc.baselineSeverityScore > 0 ? assoc.severityScore / assoc.baselineSeverityScore : 0;
+
+				if (a >= this.settings.minSupport && assoc.pValue <= this.settings.maxPValue) {
+					assoc.covariates = this.compareCovariates(dailyCovariates, triggerDays.get(triggerKey)!, assoc.trigger.type);
+					associations.push(assoc);
+				}
+			}
+		}
+
+		this.adjustForCoExposure(associations, associationMap, triggerDays, symptomDays, days, absences);
+
+		return associations.sort(compareAssociations(this.settings.associationSort));
+	}
+
+	adjustForCoExposure(
+		associations: TemporalAssociation[],
+		associationMap: Map<string, Map<string, TemporalAssociation>>,
+		triggerDays: Map<string, Set<string>>,
+		symptomDays: Map<string, Set<string>>,
+		days: Set<string>,
+		absences: Map<string, Set<string>>
+	): void {
+		// Triggers logged on exactly the same days share one exposure pattern;
+		// no analysis can separate them, so they are flagged and modelled as one term
+		const minDays = Math.max(2, this.settings.minSupport);
+		const patterns = new Map<string, { keys: string[]; dates: Set<string> }>();
+		for (const [triggerKey, dates] of triggerDays) {
+			if (dates.size < minDays) continue;
+			const signature = Array.from(dates).sort().join('|');
+			if (!patterns.has(signature)) patterns.set(signature, { keys: [], dates });
+			patterns.get(signature)!.keys.push(triggerKey);
+		}
+
+		const keyOf = (assoc: TemporalAssociation) => `${assoc.trigger.type}:${assoc.trigger.name}`;
+		const patternByKey = new Map<string, { keys: string[]; dates: Set<string> }>();
+		for (const pattern of patterns.values()) {
+			for (const triggerKey of pattern.keys) patternByKey.set(triggerKey, pattern);
+		}
+		for (const assoc of associations) {
+			const pattern = patternByKey.get(keyOf(assoc));
+			if (pattern && pattern.keys.length > 1) {
+				assoc.inseparableWith = pattern.keys
+					.filter(triggerKey => triggerKey !== keyOf(assoc))
+					.map(triggerKey => triggerKey.slice(triggerKey.indexOf(':') + 1));
+			}
+		}
+
+		if (!this.settings.multivariableAnalysis) return;
+
+		// One row per day with the exposure patterns present; patterns seen every
+		// day carry no information and are left out
+		const terms = Array.from(patterns.values())
+			.filter(pattern => pattern.dates.size < days.size)
+			.sort((a, b) => b.dates.size - a.dates.size)
+			.slice(0, MAX_MODEL_TERMS);
+		const termIndex = new Map<string, number>();
+		terms.forEach((term, index) => term.keys.forEach(triggerKey => termIndex.set(triggerKey, index)));
+		const dayList = Array.from(days);
+		const rows = dayList.map(date => terms
+			.map((term, index) => (term.dates.has(date) ? index : -1))
+			.filter(index => index !== -1));
+
+		for (const symptom of new Set(associations.map(assoc => assoc.symptom))) {
+			// A day is a symptom day when the symptom was logged that day or was
+			// matched to an exposure from that day through the lag window
+			const outcomeDays = new Set(symptomDays.get(symptom));
+			for (const symptomMap of associationMap.values()) {
+				for (const occ of symptomMap.get(symptom)?.occurrences || []) outcomeDays.add(occ.date);
+			}
+			if (outcomeDays.size === days.size) continue;
+
+			// Days that explicitly rule the symptom out enter the model ABSENCE_WEIGHT times
+			const weighted = dayList.flatMap((date, index) => !outcomeDays.has(date) && isExplicitlyAbsent(absences, date, symptom)
+				? new Array<number>(ABSENCE_WEIGHT - 1).fill(index)
+				: []);
+			const model = fitLogisticRegression(
+				[...rows, ...weighted.map(index => rows[index])],
+				[...dayList.map(date => outcomeDays.has(date)), ...weighted.map(() => false)],
+				terms.length, MODEL_PENALTY
+			);
+			if (!model) continue;
+
+			for (const assoc of associations) {
+				const index = termIndex.get(keyOf(assoc));
+				if (assoc.symptom !== symptom || index === undefined) continue;
+				const coefficient = model.coefficients[index + 1];
+				const standardError = model.standardErrors[index + 1];
+				assoc.adjustedOddsRatio = Math.exp(coefficient);
+				assoc.adjustedConfidence = [
+					Math.exp(coefficient - 1.96 * standardError),
+					Math.exp(coefficient + 1.96 * standardError)
+				];
+				assoc.adjustedPValue = standardError > 0 ? 1 - normalCdf(coefficient / standardError) : 1;
+			}
+		}
+	}
+
+	entryTriggers(entry: HealthEntry): Array<{ type: TriggerType; item: TimedItem }> {
+		// Logged items are exposures as-is; sleep, mood and hydration become
+		// exposures only past the thresholds in settings
+		const triggers: Array<{ type: TriggerType; item: TimedItem }> = [
+			...entry.parsed.foods.map(item => ({ type: 'food' as const, item })),
+			...entry.parsed.supplements.map(item => ({ type: 'supplement' as const, item })),
+			...entry.parsed.medications.map(item => ({ type: 'medication' as const, item })),
+			...entry.parsed.exercise.map(item => ({ type: 'exercise' as const, item })),
+			...entry.parsed.behaviors.map(item => ({ type: 'behavior' as const, item }))
+		];
+		const derived = (type: TriggerType, canonical: string, time?: string) => {
+			triggers.push({ type, item: { canonical, time } });
+		};
+
+		const low = 10 - this.settings.highLevelThreshold;
+		for (const sleep of entry.parsed.sleep) {
+			const hours = parseDurationHours(sleep.duration);
+			if (hours !== null && hours < this.settings.shortSleepHours) derived('sleep', 'short sleep', sleep.time);
+			const quality = parseScale(sleep.quality);
+			if (quality !== null && quality <= low) derived('sleep', 'poor sleep', sleep.time);
+		}
+
+		for (const mood of entry.parsed.mood) {
+			const level = parseScale(mood.level);
+			if (level === null) continue;
+			const name = itemName(mood);
+			if (POSITIVE_MOOD_NAMES.has(name)) {
+				if (level <= low) derived('mood', `low ${name}`, mood.time);
+			} else if (level >= this.settings.highLevelThreshold) {
+				derived('mood', `high ${name}`, mood.time);
+			}
+		}
+
+		const liters = entry.parsed.hydration
+			.map(item => parseVolumeLiters(item.dose))
+			.filter((value): value is number => value !== null);
+		if (liters.length > 0 && liters.reduce((sum, value) => sum + value, 0) < this.settings.lowHydrationLiters) {
+			derived('hydration', 'low hydration');
+		}
+
+		return triggers;
+	}
+
+	entryCovariates(entry: HealthEntry): Array<{ name: string; source: TriggerType; value: number }> {
+		// Daily numeric measures used to compare trigger days with other days
+		const covariates: Array<{ name: string; source: TriggerType; value: number }> = [];
+		const sum = (values: Array<number | null>) => {
+			const known = values.filter((value): value is number => value !== null);
+			return known.length > 0 ? known.reduce((total, value) => total + value, 0) : null;
+		};
+
+		const sleepHours = sum(entry.parsed.sleep.map(item => parseDurationHours(item.duration)));
+		if (sleepHours !== null) covariates.push({ name: 'sleep hours', source: 'sleep', value: sleepHours });
+		for (const item of entry.parsed.sleep) {
+			const quality = parseScale(item.quality);
+			if (quality !== null) covariates.push({ name: 'sleep quality', source: 'sleep', value: quality });
+		}
+		for (const item of entry.parsed.mood) {
+			const level = parseScale(item.level);
+			if (level !== null) covariates.push({ name: `${itemName(item)} level`, source: 'mood', value: level });
+		}
+		const liters = sum(entry.parsed.hydration.map(item => parseVolumeLiters(item.dose)));
+		if (liters !== null) covariates.push({ name: 'fluid litres', source: 'hydration', value: liters });
+
+		return covariates;
+	}
+
+	compareCovariates(
+		dailyCovariates: Map<string, Map<string, { source: TriggerType; values: number[] }>>,
+		exposedDates: Set<string>, triggerType: TriggerType
+	): CovariateComparison[] | undefined {
+		// Means of each daily measure on trigger days vs the remaining days;
+		// measures derived from the trigger's own category are skipped
+		const groups = new Map<string, { exposed: number[]; unexposed: number[] }>();
+		for (const [date, measures] of dailyCovariates) {
+			for (const [name, { source, values }] of measures) {
+				if (source === triggerType) continue;
+				if (!groups.has(name)) groups.set(name, { exposed: [], unexposed: [] });
+				const mean = values.reduce((total, value) => total + value, 0) / values.length;
+				groups.get(name)![exposedDates.has(date) ? 'exposed' : 'unexposed'].push(mean);
+			}
+		}
+
+		const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+		const comparisons: CovariateComparison[] = [];
+		for (const [name, { exposed, unexposed }] of groups) {
+			if (exposed.length === 0 || unexposed.length === 0) continue;
+			comparisons.push({
+				name,
+				exposedMean: average(exposed),
+				unexposedMean: average(unexposed),
+				exposedDays: exposed.length,
+				unexposedDays: unexposed.length
+			});
+		}
+		return comparisons.length > 0 ? comparisons : undefined;
+	}
+
+	measureLag(
+		triggerMinute: number | null, triggerDay: number | null,
+		symptom: TimedItem, symptomDay: number | null,
+		sameNote: boolean, minLag: number, maxLag: number
+	): { lagMinutes?: number } | null {
+		// Returns the trigger → symptom lag when the pair falls inside the window,
+		// an empty object for same-note pairs that lack usable times, or null
+		const onset = parseOnset(symptom.onset);
+		let symptomMinute = parseTimeOfDay(symptom.time);
+		if (symptomMinute === null && onset?.minuteOfDay !== undefined) {
+			symptomMinute = onset.minuteOfDay;
+		}
+
+		if (symptomMinute !== null) {
+			symptomMinute += (onset?.dayOffset || 0) * DAY_MINUTES;
+			if (triggerMinute !== null && triggerDay !== null && symptomDay !== null) {
+				const lag = (symptomDay - triggerDay) * DAY_MINUTES + symptomMinute - triggerMinute;
+				return lag >= minLag && lag <= maxLag ? { lagMinutes: lag } : null;
+			}
+			return sameNote ? {} : null;
+		}
+
+		// Relative onsets ("30min later") refer to a trigger in the same note
+		if (!sameNote) return null;
+		if (onset?.lagMinutes !== undefined) {
+			return onset.lagMinutes >= minLag && onset.lagMinutes <= maxLag
+				? { lagMinutes: onset.lagMinutes }
+				: null;
+		}
+		return {};
+	}
+}
+
+class HealthLogDashboardView extends ItemView {
+	plugin: HealthLogAnalyzerPlugin;
+	// Filter state survives re-renders but not reloads
+	search = '';
+	sortKey: AssociationSortKey;
+	triggerType: 'all' | TemporalAssociation['trigger']['type'] = 'all';
+	symptomFilter = 'all';
+	dateFrom = '';
+	dateTo = '';
+	expanded = new Set<string>();
+	listEl: HTMLElement;
+	visibleEntries: HealthEntry[] = [];
+	visibleAssociations: TemporalAssociation[] = [];
+
+	constructor(leaf: WorkspaceLeaf, plugin: HealthLogAnalyzerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+		this.sortKey = plugin.settings.associationSort;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HEALTH_DASHBOARD;
+	}
+
+	getDisplayText(): string {
+		return 'Health log analysis';
+	}
+
+	getIcon(): string {
+		return 'activity';
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('health-log-dashboard');
+
+		const header = contentEl.createDiv({ cls: 'health-log-dashboard-header' });
+		header.createEl('h3', { text: 'Health Log Analysis' });
+		const rerunButton = header.createEl('button', { text: 'Re-run analysis' });
+		rerunButton.addEventListener('click', () => this.plugin.analyzeHealthLogs());
+
+		const results = this.plugin.lastResults;
+		if (!results) {
+			contentEl.createEl('p', {
+				cls: 'health-log-muted',
+				text: 'No analysis yet. Run "Analyze health logs" to populate this view.'
+			});
+			return;
+		}
+
+		contentEl.createEl('p', {
+			cls: 'health-log-muted',
+			text: `Last analyzed ${new Date(results.generatedAt).toLocaleString()}`
+		});
+
+		this.visibleEntries = this.filterEntriesByDate(results.entries);
+		// Re-score within the date range so the statistics match what is shown
+		this.visibleAssociations = (this.dateFrom || this.dateTo)
+			? this.plugin.analyzeAssociations(this.visibleEntries)
+			: results.associations;
+
+		this.renderStats(contentEl, this.visibleEntries);
+		this.renderControls(contentEl, results.associations);
+		this.listEl = contentEl.createDiv({ cls: 'health-log-association-list' });
+		this.renderList();
+	}
+
+	renderStats(containerEl: HTMLElement, entries: HealthEntry[]) {
+		const summary = summarizeEntries(entries);
+		const statsDiv = containerEl.createDiv({ cls: 'health-log-stats' });
+		statsDiv.createEl('p', { text: `Total entries analyzed: ${summary.entries}` });
+		statsDiv.createEl('p', { text: `Unique foods: ${summary.uniqueFoods}` });
+		statsDiv.createEl('p', { text: `Unique supplements: ${summary.uniqueSupplements}` });
+		statsDiv.createEl('p', { text: `Unique medications: ${summary.uniqueMedications}` });
+		statsDiv.createEl('p', { text: `Unique exercise: ${summary.uniqueExercise}` });
+		statsDiv.createEl('p', { text: `Unique behaviors: ${summary.uniqueBehaviors}` });
+		statsDiv.createEl('p', { text: `Unique symptoms: ${summary.uniqueSymptoms}` });
+		statsDiv.createEl('p', { text: `Symptom-free days: ${summary.symptomFreeDays}` });
+	}
+
+	renderControls(containerEl: HTMLElement, allAssociations: TemporalAssociation[]) {
+		const controls = containerEl.createDiv({ cls: 'health-log-controls' });
+
+		const searchInput = controls.createEl('input', {
+			type: 'search',
+			placeholder: 'Search triggers and symptoms...',
+			value: this.search
+		});
+		searchInput.addEventListener('input', () => {
+			this.search = searchInput.value;
+			this.renderList();
+		});
+
+		const sortSelect = this.createSelect(controls, 'Sort', [
+			['pValue', 'p-value'],
+			['lift', 'Lift'],
+			['relativeRisk', 'Relative risk'],
+			['count', 'Count'],
+			['severity', 'Severity-weighted lift'],
+			['adjusted', 'Adjusted odds ratio']
+		], this.sortKey);
+		sortSelect.addEventListener('change', () => {
+			this.sortKey = sortSelect.value as AssociationSortKey;
+			this.renderList();
+		});
+
+		const typeSelect = this.createSelect(controls, 'Trigger', [
+			['all', 'All types'],
+			['food', 'Food'],
+			['supplement', 'Supplement'],
+			['medication', 'Medication'],
+			['exercise', 'Exercise'],
+			['behavior', 'Behavior'],
+			['sleep', 'Sleep'],
+			['mood', 'Mood / stress'],
+			['hydration', 'Hydration']
+		], this.triggerType);
+		typeSelect.addEventListener('change', () => {
+			this.triggerType = typeSelect.value as HealthLogDashboardView['triggerType'];
+			this.renderList();
+		});
+
+		const symptoms = Array.from(new Set(allAssociations.map(a => a.symptom))).sort();
+		const symptomSelect = this.createSelect(controls, 'Symptom', [
+			['all', 'All symptoms'],
+			...symptoms.map(s => [s, s] as [string, string])
+		], this.symptomFilter);
+		symptomSelect.addEventListener('change', () => {
+			this.symptomFilter = symptomSelect.value;
+			this.renderList();
+		});
+
+		const dateRow = controls.createDiv({ cls: 'health-log-date-range' });
+		dateRow.createSpan({ text: 'From' });
+		const fromInput = dateRow.createEl('input', { type: 'date', value: this.dateFrom });
+		dateRow.createSpan({ text: 'to' });
+		const toInput = dateRow.createEl('input', { type: 'date', value: this.dateTo });
+		// Date changes re-score associations, so they need a full render
+		fromInput.addEventListener('change', () => {
+			this.dateFrom = fromInput.value;
+			this.render();
+		});
+		toInput.addEventListener('change', () => {
+			this.dateTo = toInput.value;
+			this.render();
+		});
+	}
+
+	createSelect(containerEl: HTMLElement, label: string, options: Array<[string, string]>, value: string): HTMLSelectElement {
+		const wrapper = containerEl.createEl('label', { cls: 'health-log-select' });
+		wrapper.createSpan({ text: label });
+		const select = wrapper.createEl('select', { cls: 'dropdown' });
+		for (const [optionValue, optionLabel] of options) {
+			select.createEl('option', { value: optionValue, text: optionLabel });
+		}
+		select.value = value;
+		return select;
+	}
+
+	renderList() {
+		// Search, sort and type filters only touch the list, keeping input focus
+		this.listEl.empty();
+		if (this.symptomFilter !== 'all') {
+			const calendar = this.listEl.createDiv({ cls: 'health-log-chart-section' });
+			calendar.createEl('h4', { text: `Frequency calendar: ${this.symptomFilter}` });
+			const { counts, logged } = symptomDailyCounts(this.visibleEntries, this.symptomFilter);
+			renderCalendarHeatmap(calendar, counts, logged, this.symptomFilter);
+			this.renderSeverityTimeline(this.listEl, this.visibleEntries, this.symptomFilter);
+		}
+		this.renderAssociations(this.listEl, this.visibleEntries, this.filterAssociations(this.visibleAssociations));
+	}
+
+	renderSeverityTimeline(containerEl: HTMLElement, entries: HealthEntry[], symptom: string) {
+		const points = symptomSeverityTimeline(entries, symptom);
+		const section = containerEl.createDiv({ cls: 'health-log-severity' });
+		section.createEl('h4', { text: `Severity over time: ${symptom}` });
+		if (points.length === 0) {
+			section.createEl('p', { cls: 'health-log-muted', text: 'Not logged in the selected period.' });
+			return;
+		}
+
+		// Compare the first and second half of the rated days to show the trend
+		const rated = points.map(p => p.severity).filter((s): s is number => s !== null);
+		const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+		let summary = `Logged on ${points.length} days, ${rated.length} with a severity`;
+		if (rated.length > 0) {
+			summary += ` · mean ${mean(rated).toFixed(1)}/10`;
+		}
+		if (rated.length >= 4) {
+			const half = Math.floor(rated.length / 2);
+			const change = mean(rated.slice(rated.length - half)) - mean(rated.slice(0, half));
+			summary += ` · ${Math.abs(change) < 0.5 ? 'stable' : change > 0 ? 'worsening' : 'improving'} (${change > 0 ? '+' : ''}${change.toFixed(1)})`;
+		}
+		section.createEl('p', { cls: 'health-log-muted', text: summary });
+
+		for (const { entry, severity } of points) {
+			const row = section.createDiv({ cls: 'health-log-severity-row' });
+			this.createNoteLink(row.createSpan({ cls: 'health-log-severity-date' }), entry.date, entry.fileName);
+			const track = row.createDiv({ cls: 'health-log-severity-track' });
+			const bar = track.createDiv({ cls: 'health-log-severity-bar' });
+			bar.style.width = `${(severity ?? 0) * 10}%`;
+			row.createSpan({ cls: 'health-log-severity-value', text: severity !== null ? `${severity}/10` : 'unrated' });
+		}
+	}
+
+	filterEntriesByDate(entries: HealthEntry[]): HealthEntry[] {
+		return filterEntriesByDateRange(entries, this.dateFrom, this.dateTo);
+	}
+
+	filterAssociations(associations: TemporalAssociation[]): TemporalAssociation[] {
+		const query = this.search.trim().toLowerCase();
+		return associations
+			.filter(assoc => this.triggerType === 'all' || assoc.trigger.type === this.triggerType)
+			.filter(assoc => this.symptomFilter === 'all' || assoc.symptom === this.symptomFilter)
+			.filter(assoc => !query
+				|| assoc.trigger.name.toLowerCase().includes(query)
+				|| assoc.symptom.toLowerCase().includes(query))
+			.sort(compareAssociations(this.sortKey));
+	}
+
+	renderAssociations(containerEl: HTMLElement, entries: HealthEntry[], associations: TemporalAssociation[]) {
+		containerEl.createEl('h4', { text: `Temporal Associations (${associations.length})` });
+
+		if (associations.length === 0) {
+			containerEl.createEl('p', {
+				cls: 'health-log-muted',
+				text: `No associations match. Check the filters, or lower the minimum support (currently ${this.plugin.settings.minSupport} shared days) in settings.`
+			});
+			return;
+		}
+
+		const filesByDate = new Map(entries.map(entry => [entry.date, entry.fileName]));
+
+		for (const assoc of associations) {
+			const key = `${assoc.trigger.type}:${assoc.trigger.name}→${assoc.symptom}`;
+			const assocDiv = containerEl.createDiv({ cls: 'health-association is-clickable' });
+
+			assocDiv.createEl('h4', { text: `${assoc.trigger.name} (${assoc.trigger.type})` });
+			assocDiv.createEl('p', { cls: 'health-association-symptom', text: `→ ${assoc.symptom}` });
+			assocDiv.createEl('p', {
+				cls: 'health-association-stats',
+				text: `Symptom on ${assoc.totalCount}/${assoc.exposureDays} days with trigger (${assoc.percentage.toFixed(1)}%) vs ${(assoc.baselineRate * 100).toFixed(1)}% of all ${assoc.totalDays} days`
+					+ (assoc.symptomFreeDays ? ` · explicitly absent on ${assoc.symptomFreeDays}, counted ${ABSENCE_WEIGHT}×` : '')
+			});
+			assocDiv.createEl('p', {
+				cls: 'health-association-stats',
+				text: `Lift ${assoc.lift.toFixed(2)}× · Relative risk ${assoc.relativeRisk.toFixed(2)} · p = ${formatPValue(assoc.pValue)}`
+					+ (assoc.unweightedLift !== undefined
+						? ` (without the explicit absences: lift ${assoc.unweightedLift.toFixed(2)}×, p = ${formatPValue(assoc.unweightedPValue!)})`
+						: '')
+			});
+
+			if (assoc.adjustedOddsRatio !== undefined) {
+				assocDiv.createEl('p', {
+					cls: 'health-association-stats',
+					text: `Adjusted for co-occurring triggers: ${formatAdjustedEffect(assoc)}`
+				});
+			}
+
+			if (assoc.inseparableWith) {
+				assocDiv.createEl('p', {
+					cls: 'health-association-inseparable',
+					text: `Always logged together with ${assoc.inseparableWith.join(', ')}; their effects cannot be separated`
+				});
+			}
+
+			if (assoc.lagStats) {
+				assocDiv.createEl('p', {
+					cls: 'health-association-timing',
+					text: `Lag: median ${formatMinutes(assoc.lagStats.median)} (range ${formatMinutes(assoc.lagStats.min)}–${formatMinutes(assoc.lagStats.max)}, ${assoc.lagStats.samples} timed)`
+				});
+			}
+
+			if (assoc.severityLift !== undefined) {
+				assocDiv.createEl('p', {
+					cls: 'health-association-stats',
+					text: (assoc.meanSeverity !== undefined ? `Mean severity ${assoc.meanSeverity.toFixed(1)}/10 · ` : 'Severity not rated · ')
+						+ `Severity-weighted ${assoc.severityScore!.toFixed(1)} vs ${assoc.baselineSeverityScore!.toFixed(1)} per day (${assoc.severityLift.toFixed(2)}×)`
+				});
+			}
+
+			if (assoc.covariates) {
+				assocDiv.createEl('p', {
+					cls: 'health-association-covariates',
+					text: `Trigger days vs other days: ${assoc.covariates.map(c => `${c.name} ${c.exposedMean.toFixed(1)} vs ${c.unexposedMean.toFixed(1)}`).join(' · ')}`
+				});
+			}
+
+			if (this.expanded.has(key)) {
+				renderAssociationCharts(assocDiv, this.plugin, entries, assoc);
+				const notesList = assocDiv.createEl('ul', { cls: 'health-association-notes' });
+				const highlight = [assoc.trigger.name, assoc.symptom];
+				for (const occ of assoc.occurrences) {
+					const item = notesList.createEl('li');
+					this.createNoteLink(item, occ.date, filesByDate.get(occ.date));
+					this.createReviewLink(item, filesByDate.get(occ.date), highlight);
+					if (occ.symptomDate && occ.symptomDate !== occ.date) {
+						item.appendText(' → ');
+						this.createNoteLink(item, occ.symptomDate, filesByDate.get(occ.symptomDate));
+						this.createReviewLink(item, filesByDate.get(occ.symptomDate), highlight);
+					}
+					if (occ.lagMinutes !== undefined) {
+						item.appendText(` (${formatMinutes(occ.lagMinutes)})`);
+					} else if (occ.timeLag) {
+						item.appendText(` (${occ.timeLag})`);
+					}
+				}
+			} else {
+				assocDiv.createEl('p', {
+					cls: 'health-association-dates',
+					text: `${assoc.occurrences.length} matching notes: click to list`
+				});
+			}
+
+			assocDiv.addEventListener('click', (event) => {
+				if ((event.target as HTMLElement).closest('a')) return;
+				if (this.expanded.has(key)) {
+					this.expanded.delete(key);
+				} else {
+					this.expanded.add(key);
+				}
+				this.renderList();
+			});
+		}
+	}
+
+	createNoteLink(containerEl: HTMLElement, date: string, filePath?: string) {
+		if (!filePath) {
+			containerEl.appendText(date);
+			return;
+		}
+		const link = containerEl.createEl('a', { text: date, cls: 'internal-link', href: '#' });
+		link.addEventListener('click', async (event) => {
+			event.preventDefault();
+			await this.plugin.openHealthLog(filePath, event.ctrlKey || event.metaKey);
+		});
+	}
+
+	createReviewLink(containerEl: HTMLElement, filePath: string | undefined, highlight: string[]) {
+		// Jumps to the parsed data behind the association, to check or correct it
+		if (!filePath) return;
+		const link = containerEl.createEl('a', { text: 'parsed', cls: 'health-log-review-link', href: '#' });
+		link.addEventListener('click', async (event) => {
+			event.preventDefault();
+			await this.plugin.openReview(filePath, highlight);
+		});
+	}
+}
+
+class HealthLogReviewView extends ItemView {
+	plugin: HealthLogAnalyzerPlugin;
+	filePath: string | null = null;
+	highlight: string[] = []; // Canonical names to mark, e.g. the trigger and symptom of an association
+
+	constructor(leaf: WorkspaceLeaf, plugin: HealthLogAnalyzerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HEALTH_REVIEW;
+	}
+
+	getDisplayText(): string {
+		const file = this.filePath ? this.app.vault.getAbstractFileByPath(this.filePath) : null;
+		return file instanceof TFile ? `Health log: ${file.basename}` : 'Health log review';
+	}
+
+	getIcon(): string {
+		return 'list-checks';
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const { file, highlight } = (state || {}) as { file?: string; highlight?: string[] };
+		this.filePath = file || null;
+		this.highlight = highlight || [];
+		await this.render();
+		return super.setState(state, result);
+	}
+
+	getState(): Record<string, unknown> {
+		return { file: this.filePath, highlight: this.highlight };
+	}
+
+	async onOpen() {
+		// Follow re-parses, edits to the note and corrections made elsewhere
+		this.registerEvent((this.app.workspace as Events).on('health-log-analyzer:index-changed', () => this.render()));
+		await this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	async render() {
+		const file = this.filePath ? this.app.vault.getAbstractFileByPath(this.filePath) : null;
+		const content = file instanceof TFile ? await this.app.vault.cachedRead(file) : null;
+
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('health-log-review');
+		if (!(file instanceof TFile) || content === null) {
+			contentEl.createEl('p', {
+				cls: 'health-log-muted',
+				text: 'Open a daily note and run "Review parsed health log of current note" to see what was extracted from it.'
+			});
+			return;
+		}
+
+		const header = contentEl.createDiv({ cls: 'health-log-dashboard-header' });
+		header.createEl('h3', { text: file.basename });
+		const openButton = header.createEl('button', { text: 'Open note' });
+		// A new tab, since the review itself is the active leaf
+		openButton.addEventListener('click', () => this.plugin.openHealthLog(file.path, true));
+		const reparseButton = header.createEl('button', { text: 'Re-parse' });
+		reparseButton.addEventListener('click', () => this.plugin.reparseNote(file));
+
+		const section = this.plugin.extractHealthLogSection(content);
+		if (!section) {
+			contentEl.createEl('p', { cls: 'health-log-muted', text: 'No health log section found in this note.' });
+			return;
+		}
+
+		const cached = this.plugin.cache.entries[file.path];
+		if (!cached) {
+			contentEl.createEl('p', { cls: 'health-log-muted', text: 'This note has not been parsed yet. Use Re-parse to parse it now.' });
+		} else if (cached.status === 'failed') {
+			contentEl.createEl('p', {
+				cls: 'health-log-muted',
+				text: `LLM parsing failed (${cached.error || 'unknown error'}); showing the rule-based fallback.`
+			});
+		} else if (cached.hash !== hashString(`${this.plugin.parserSignature()}\n${section}`)) {
+			contentEl.createEl('p', {
+				cls: 'health-log-muted',
+				text: 'The note or parser changed since this parse; it will be refreshed on the next analysis.'
+			});
+		}
+
+		const columns = contentEl.createDiv({ cls: 'health-log-review-columns' });
+		const rawEl = columns.createDiv({ cls: 'health-log-review-raw' });
+		rawEl.createEl('h4', { text: 'Health log section' });
+		rawEl.createEl('pre', { text: section });
+
+		const parsedEl = columns.createDiv({ cls: 'health-log-review-parsed' });
+		parsedEl.createEl('h4', { text: 'Parsed data' });
+		if (cached) {
+			this.renderParsed(parsedEl, file, { ...emptyParsedData(), ...cached.parsed });
+		}
+	}
+
+	renderParsed(containerEl: HTMLElement, file: TFile, parsed: ParsedHealthData) {
+		const overrides = this.plugin.overrides[file.path] || [];
+		const save = (updated: ItemOverride[]) => this.plugin.updateOverrides(file, updated);
+		const upsert = (override: ItemOverride) => save([
+			...overrides.filter(o => !(o.category === override.category && o.match === override.match)),
+			override
+		]);
+		const highlighted = (category: keyof ParsedHealthData, item: TimedItem) => this.highlight.length > 0
+			&& this.plugin.normalizeItemName(itemKey(item), category === 'foods' && this.plugin.settings.splitCompoundFoods)
+				.some(name => this.highlight.includes(name));
+		const matched = new Set<ItemOverride>();
+
+		for (const category of Object.keys(CATEGORY_LABELS) as Array<keyof ParsedHealthData>) {
+			const added = overrides.filter(o => o.category === category && o.match === undefined);
+			const categoryEl = containerEl.createDiv({ cls: 'health-log-review-category' });
+			const headingEl = categoryEl.createDiv({ cls: 'health-log-review-category-header' });
+			headingEl.createEl('h5', { text: CATEGORY_LABELS[category] });
+			const addButton = headingEl.createEl('button', { text: 'Add' });
+			addButton.addEventListener('click', () => {
+				new ParsedItemModal(this.app, category, {}, item => save([...overrides, { category, item }])).open();
+			});
+			if (parsed[category].length === 0 && added.length === 0) continue;
+
+			const listEl = categoryEl.createEl('ul');
+			for (const item of parsed[category]) {
+				const key = itemKey(item);
+				const correction = overrides.find(o => o.category === category && o.match === key);
+				if (correction) matched.add(correction);
+				const shown = correction?.item || item;
+
+				const row = this.createItemRow(listEl, shown, highlighted(category, shown));
+				if (correction) {
+					row.addClass(correction.item ? 'is-edited' : 'is-removed');
+					row.setAttr('title', `Parsed as: ${formatItem(item)}`);
+				}
+				if (!correction || correction.item) {
+					this.addRowButton(row, 'Edit', () => new ParsedItemModal(this.app, category, shown,
+						edited => upsert({ category, match: key, item: edited })).open());
+					this.addRowButton(row, 'Remove', () => upsert({ category, match: key }));
+				}
+				if (correction) {
+					this.addRowButton(row, correction.item ? 'Revert' : 'Restore', () => save(overrides.filter(o => o !== correction)));
+				}
+			}
+
+			for (const override of added) {
+				const row = this.createItemRow(listEl, override.item!, highlighted(category, override.item!));
+				row.addClass('is-added');
+				this.addRowButton(row, 'Edit', () => new ParsedItemModal(this.app, category, override.item!,
+					edited => save(overrides.map(o => (o === override ? { category, item: edited } : o)))).open());
+				this.addRowButton(row, 'Remove', () => save(overrides.filter(o => o !== override)));
+			}
+		}
+
+		// Corrections whose item the current parse no longer produces
+		const stale = overrides.filter(o => o.match !== undefined && !matched.has(o));
+		if (stale.length > 0) {
+			const staleEl = containerEl.createDiv({ cls: 'health-log-review-category' });
+			staleEl.createEl('h5', { text: 'Corrections that no longer match' });
+			staleEl.createEl('p', {
+				cls: 'health-log-muted',
+				text: 'The note was edited or re-parsed and these items are no longer extracted. They have no effect until the item reappears.'
+			});
+			const listEl = staleEl.createEl('ul');
+			for (const override of stale) {
+				const row = this.createItemRow(listEl, override.item || { name: override.match }, false);
+				row.prepend(`${CATEGORY_LABELS[override.category]}: ${override.item ? 'edit of' : 'removal of'} "${override.match}" → `);
+				this.addRowButton(row, 'Delete', () => save(overrides.filter(o => o !== override)));
+			}
+		}
+	}
+
+	createItemRow(listEl: HTMLElement, item: TimedItem, highlighted: boolean): HTMLElement {
+		const row = listEl.createEl('li', { cls: 'health-log-review-item' });
+		if (highlighted) row.addClass('is-highlighted');
+		row.createSpan({ text: formatItem(item) || '(empty)' });
+		return row;
+	}
+
+	addRowButton(row: HTMLElement, text: string, onClick: () => void) {
+		const button = row.createEl('button', { text });
+		button.addEventListener('click', onClick);
+	}
+}
+
+class HealthLogQueryRenderer extends MarkdownRenderChild {
+	plugin: HealthLogAnalyzerPlugin;
+	source: string;
+	inline: boolean; // Inline code shows only the top association, as text
+
+	constructor(containerEl: HTMLElement, plugin: HealthLogAnalyzerPlugin, source: string, inline: boolean) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+		this.inline = inline;
+	}
+
+	onload() {
+		this.render();
+		this.registerEvent((this.plugin.app.workspace as Events).on('health-log-analyzer:index-changed', () => this.render()));
+	}
+
+	render() {
+		const { containerEl } = this;
+		containerEl.empty();
+		containerEl.addClass(this.inline ? 'health-log-inline-query' : 'health-log-query');
+
+		const { query, errors } = parseHealthLogQuery(this.source, this.plugin.settings.associationSort);
+		if (errors.length > 0) {
+			containerEl.createSpan({ cls: 'health-log-query-error', text: `health-log: ${errors.join('; ')}` });
+			return;
+		}
+		const { entries, associations } = this.plugin.queryAssociations(query);
+		if (entries.length === 0) {
+			containerEl.createSpan({
+				cls: 'health-log-muted',
+				text: 'No health log data yet. Run "Analyze health logs" or turn on background indexing.'
+			});
+			return;
+		}
+
+		if (this.inline) {
+			containerEl.setText(associations.length > 0 ? this.describe(associations[0]) : 'no matching association');
+			return;
+		}
+
+		if (associations.length === 0) {
+			containerEl.createEl('p', { cls: 'health-log-muted', text: 'No associations match this query.' });
+		} else if (query.output === 'list') {
+			const list = containerEl.createEl('ul');
+			for (const assoc of associations) {
+				const item = list.createEl('li', { text: this.describe(assoc) });
+				if (assoc.inseparableWith) {
+					item.createSpan({ cls: 'health-association-inseparable', text: ` · always with ${assoc.inseparableWith.join(', ')}` });
+				}
+			}
+		} else if (query.output === 'chart') {
+			this.renderCharts(entries, associations, query);
+		} else {
+			this.renderTable(associations);
+		}
+
+		// Several notes can share a date, so count dates rather than notes
+		const dated = entries.filter(entry => entry.day !== null);
+		const days = new Set(entries.map(entry => entry.date)).size;
+		containerEl.createEl('p', {
+			cls: 'health-log-muted',
+			text: dated.length > 0
+				? `${days} days logged, ${dated[0].date} to ${dated[dated.length - 1].date}`
+				: `${days} days logged`
+		});
+	}
+
+	describe(assoc: TemporalAssociation): string {
+		return `${assoc.trigger.name} → ${assoc.symptom}: ${assoc.totalCount}/${assoc.exposureDays} days (${assoc.percentage.toFixed(0)}%), `
+			+ `lift ${assoc.lift.toFixed(2)}×, p = ${formatPValue(assoc.pValue)}`;
+	}
+
+	renderTable(associations: TemporalAssociation[]) {
+		const table = this.containerEl.createEl('table');
+		const headerRow = table.createEl('thead').createEl('tr');
+		for (const heading of ['Trigger', 'Symptom', 'Days', 'Lift', 'Relative risk', 'p-value']) {
+			headerRow.createEl('th', { text: heading });
+		}
+		const body = table.createEl('tbody');
+		for (const assoc of associations) {
+			const row = body.createEl('tr');
+			row.createEl('td', { text: `${assoc.trigger.name} (${assoc.trigger.type})` });
+			row.createEl('td', { text: assoc.symptom });
+			row.createEl('td', { text: `${assoc.totalCount}/${assoc.exposureDays} (${assoc.percentage.toFixed(0)}%)` });
+			row.createEl('td', { text: `${assoc.lift.toFixed(2)}×` });
+			row.createEl('td', { text: assoc.relativeRisk.toFixed(2) });
+			row.createEl('td', { text: formatPValue(assoc.pValue) });
+		}
+	}
+
+	renderCharts(entries: HealthEntry[], associations: TemporalAssociation[], query: HealthLogQuery) {
+		// A symptom filter also gets its calendar, like the dashboard
+		if (query.symptom) {
+			const symptom = associations[0].symptom;
+			const calendar = this.containerEl.createDiv({ cls: 'health-log-chart-section' });
+			calendar.createEl('h5', { text: `Frequency calendar: ${symptom}` });
+			const { counts, logged } = symptomDailyCounts(entries, symptom);
+			renderCalendarHeatmap(calendar, counts, logged, symptom);
+		}
+		for (const assoc of associations) {
+			this.containerEl.createEl('h5', { text: `${assoc.trigger.name} → ${assoc.symptom}` });
+			renderAssociationCharts(this.containerEl, this.plugin, entries, assoc);
+		}
+	}
+}
+
+class HealthLogSuggest extends EditorSuggest<KnownItem> {
+	plugin: HealthLogAnalyzerPlugin;
+	// Symptoms after a narrative separator ("Pizza — hea"), otherwise things taken
+	mode: 'item' | 'symptom' = 'item';
 
-	constructor(app: App, entries: HealthEntry[], associations: TemporalAssociation[]) {
+	constructor(app: App, plugin: HealthLogAnalyzerPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.limit = 10;
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+		if (!this.plugin.settings.editorSuggestions || !file || !this.plugin.isDailyNote(file)) return null;
+		const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+		// Only while a word is being typed
+		if (!/\p{L}[\p{L}\p{N}'-]*$/u.test(before)) return null;
+		if (!this.plugin.isInHealthLogSection(editor, cursor.line)) return null;
+
+		let text = before
+			.replace(/^\s*>?\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, '')
+			.replace(LEADING_TIME_PATTERN, '');
+		const separator = text.match(/^.*(?:[—–]|\s-{1,3}\s)/);
+		if (separator) {
+			this.mode = 'symptom';
+			text = text.slice(separator[0].length);
+		} else {
+			const label = text.match(/^[*_]*([a-z]+)[*_]*\s*:\s*/i);
+			if (label && this.plugin.labelToCategory(label[1])) {
+				this.mode = this.plugin.labelToCategory(label[1]) === 'symptom' ? 'symptom' : 'item';
+				text = text.slice(label[0].length);
+			} else {
+				this.mode = 'item';
+			}
+			text = text.replace(FOOD_VERBS, '').replace(SUPPLEMENT_VERBS, '');
+		}
+
+		// The item being typed is the last one in a list
+		const query = text.split(/,|;|\s+(?:and|with|&|\+)\s+/i).pop()!.replace(/^\s+/, '');
+		if (!query || query.length > 40) return null;
+		return {
+			start: { line: cursor.line, ch: cursor.ch - query.length },
+			end: cursor,
+			query
+		};
+	}
+
+	getSuggestions(context: EditorSuggestContext): KnownItem[] {
+		const query = context.query.toLowerCase();
+		const categories: Array<keyof ParsedHealthData> = this.mode === 'symptom' ? ['symptoms'] : ['foods', 'supplements', 'medications'];
+		const items = this.plugin.knownItems(categories).filter(item => item.name.includes(query));
+		// Prefix matches first, each in ranking order
+		return [...items.filter(item => item.name.startsWith(query)), ...items.filter(item => !item.name.startsWith(query))];
+	}
+
+	renderSuggestion(item: KnownItem, el: HTMLElement) {
+		el.createDiv({ text: item.name });
+		el.createDiv({
+			cls: 'health-log-suggestion-details',
+			text: [CATEGORY_LABELS[item.category], item.dose, item.time ? `usually ${item.time}` : '', `${item.count}×`]
+				.filter(Boolean)
+				.join(' · ')
+		});
+	}
+
+	selectSuggestion(item: KnownItem) {
+		if (!this.context) return;
+		const { editor, start, end } = this.context;
+		// The usual dose is filled in for things taken in measured amounts
+		const text = item.dose && (item.category === 'supplements' || item.category === 'medications')
+			? `${item.name} (${item.dose})`
+			: item.name;
+		editor.replaceRange(text, start, end);
+		editor.setCursor({ line: start.line, ch: start.ch + text.length });
+	}
+}
+
+// Parsed category each quick-log category is written as, for autocomplete
+const QUICK_LOG_CATEGORIES: Record<QuickLogCategory, keyof ParsedHealthData> = {
+	food: 'foods',
+	supplement: 'supplements',
+	exercise: 'exercise',
+	symptom: 'symptoms'
+};
+
+class LogHealthItemModal extends Modal {
+	plugin: HealthLogAnalyzerPlugin;
+	entry: QuickLogEntry = { category: 'food', name: '', time: moment().format('HH:mm'), amount: '', severity: '' };
+
+	constructor(app: App, plugin: HealthLogAnalyzerPlugin) {
 		super(app);
-		this.entries = entries;
-		this.associations = associations;
+		this.plugin = plugin;
 	}
 
 	onOpen() {
-		const { contentEl } = this;
+		this.titleEl.setText('Log health item');
+		// Enter in any text field logs the item
+		this.contentEl.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && !event.isComposing && (event.target as HTMLElement).tagName === 'INPUT') {
+				event.preventDefault();
+				this.submit();
+			}
+		});
+		this.display();
+	}
+
+	display() {
+		// Rebuilt when the category changes, since the fields depend on it
+		const { contentEl, entry } = this;
 		contentEl.empty();
 
-		contentEl.createEl('h2', { text: 'Health Log Analysis Results' });
+		new Setting(contentEl)
+			.setName('Category')
+			.addDropdown(dropdown => dropdown
+				.addOption('food', 'Food')
+				.addOption('supplement', 'Supplement')
+				.addOption('exercise', 'Exercise')
+				.addOption('symptom', 'Symptom')
+				.setValue(entry.category)
+				.onChange(value => {
+					entry.category = value as QuickLogCategory;
+					this.display();
+				}));
 
-		// Summary stats
-		const statsDiv = contentEl.createDiv({ cls: 'health-log-stats' });
-		statsDiv.createEl('p', { text: `Total entries analyzed: ${this.entries.length}` });
+		const suggestions = this.plugin.knownItems([QUICK_LOG_CATEGORIES[entry.category]]).map(item => item.name);
+		const listId = 'health-log-quick-log-names';
+		new Setting(contentEl)
+			.setName(entry.category === 'symptom' ? 'Symptom' : entry.category === 'exercise' ? 'Activity' : 'Item')
+			.addText(text => {
+				text
+					.setPlaceholder(suggestions[0] || '')
+					.setValue(entry.name)
+					.onChange(value => {
+						entry.name = value;
+					});
+				text.inputEl.setAttr('list', listId);
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+		const datalist = contentEl.createEl('datalist', { attr: { id: listId } });
+		for (const name of suggestions.slice(0, 200)) {
+			datalist.createEl('option', { attr: { value: name } });
+		}
 
-		const totalFoods = new Set(this.entries.flatMap(e => e.parsed.foods.map(f => f.name))).size;
-		const totalSupplements = new Set(this.entries.flatMap(e => e.parsed.supplements.map(s => s.name))).size;
-		const totalExercise = new Set(this.entries.flatMap(e => e.parsed.exercise.map(ex => ex.name || ex.activity || 'exercise'))).size;
-		const totalSymptoms = new Set(this.entries.flatMap(e => e.parsed.symptoms.map(s => s.description || s.name || 'unknown'))).size;
+		new Setting(contentEl)
+			.setName('Time')
+			.setDesc('Leave empty for an untimed entry')
+			.addText(text => text
+				.setPlaceholder('08:30')
+				.setValue(entry.time)
+				.onChange(value => {
+					entry.time = value;
+				}));
 
-		statsDiv.createEl('p', { text: `Unique foods: ${totalFoods}` });
-		statsDiv.createEl('p', { text: `Unique supplements: ${totalSupplements}` });
-		statsDiv.createEl('p', { text: `Unique exercise: ${totalExercise}` });
-		statsDiv.createEl('p', { text: `Unique symptoms: ${totalSymptoms}` });
+		if (entry.category === 'symptom') {
+			new Setting(contentEl)
+				.setName('Severity')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Not rated');
+					for (const word of ['mild', 'moderate', 'severe']) dropdown.addOption(word, word);
+					for (let value = 1; value <= 10; value++) dropdown.addOption(`${value}/10`, `${value}/10`);
+					dropdown
+						.setValue(entry.severity)
+						.onChange(value => {
+							entry.severity = value;
+						});
+				});
+		} else {
+			new Setting(contentEl)
+				.setName(entry.category === 'exercise' ? 'Duration' : 'Dose')
+				.addText(text => text
+					.setPlaceholder(entry.category === 'exercise' ? '30 minutes' : entry.category === 'supplement' ? '200mg' : '2 cups')
+					.setValue(entry.amount)
+					.onChange(value => {
+						entry.amount = value;
+					}));
+		}
 
-		// Associations
-		contentEl.createEl('h3', { text: 'Temporal Associations Found' });
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Log')
+				.setCta()
+				.onClick(() => this.submit()));
+	}
 
-		if (this.associations.length === 0) {
-			contentEl.createEl('p', { text: 'No associations found. Make sure your health logs contain both triggers and symptoms.' });
+	async submit() {
+		const { entry } = this;
+		if (!entry.name.trim()) {
+			new Notice('Enter what to log.');
 			return;
 		}
+		if (entry.time.trim() && !/^\d{1,2}:\d{2}(?:\s*[ap]m)?$|^\d{1,2}\s*[ap]m$/i.test(entry.time.trim())) {
+			new Notice('Enter the time as 08:30, 8:30am or 2pm.');
+			return;
+		}
+		this.close();
+		await this.plugin.logHealthItem(entry);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class ParsedItemModal extends Modal {
+	category: keyof ParsedHealthData;
+	values: Record<string, string>;
+	onSave: (item: TimedItem) => void;
+
+	constructor(app: App, category: keyof ParsedHealthData, item: TimedItem, onSave: (item: TimedItem) => void) {
+		super(app);
+		this.category = category;
+		this.onSave = onSave;
+		// Only the raw fields of the category are edited; `canonical` and scores are derived
+		this.values = {};
+		for (const field of ITEM_SCHEMA[category].fields) {
+			const value = (item as Record<string, unknown>)[field];
+			this.values[field] = typeof value === 'string' ? value : '';
+		}
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { fields, required } = ITEM_SCHEMA[this.category];
+		this.titleEl.setText(`${CATEGORY_LABELS[this.category]} item`);
+
+		for (const field of fields) {
+			new Setting(contentEl)
+				.setName(field.charAt(0).toUpperCase() + field.slice(1))
+				.addText(text => text
+					.setValue(this.values[field])
+					.onChange(value => {
+						this.values[field] = value;
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					const item: Record<string, string> = {};
+					for (const field of fields) {
+						const value = this.values[field].trim();
+						if (value) item[field] = value;
+					}
+					if (!required.some(field => item[field])) {
+						new Notice(`Fill in ${required.join(' or ')}.`);
+						return;
+					}
+					this.onSave(item as TimedItem);
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class SummaryPeriodSuggestModal extends FuzzySuggestModal<SummaryPeriod> {
+	periods: SummaryPeriod[];
+	onChoose: (period: SummaryPeriod) => void;
+
+	constructor(app: App, periods: SummaryPeriod[], onChoose: (period: SummaryPeriod) => void) {
+		super(app);
+		this.periods = periods;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a period to summarize...');
+	}
+
+	getItems(): SummaryPeriod[] {
+		return this.periods;
+	}
+
+	getItemText(period: SummaryPeriod): string {
+		return `${period.label} (${period.start} to ${period.end})`;
+	}
+
+	onChooseItem(period: SummaryPeriod) {
+		this.onChoose(period);
+	}
+}
+
+class ExperimentSuggestModal extends FuzzySuggestModal<EliminationExperiment> {
+	experiments: EliminationExperiment[];
+	onChoose: (experiment: EliminationExperiment) => void;
+
+	constructor(app: App, experiments: EliminationExperiment[], onChoose: (experiment: EliminationExperiment) => void) {
+		super(app);
+		this.experiments = experiments;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose an elimination experiment...');
+	}
+
+	getItems(): EliminationExperiment[] {
+		return this.experiments;
+	}
+
+	getItemText(experiment: EliminationExperiment): string {
+		return experiment.name || 'Untitled experiment';
+	}
+
+	onChooseItem(experiment: EliminationExperiment) {
+		this.onChoose(experiment);
+	}
+}
+
+class HealthLogSettingTab extends PluginSettingTab {
+	plugin: HealthLogAnalyzerPlugin;
+
+	constructor(app: App, plugin: HealthLogAnalyzerPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+
+		containerEl.createEl('h2', { text: 'Health Log Analyzer Settings' });
+
+		new Setting(containerEl)
+			.setName('Detection method')
+			.setDesc('How to identify daily notes')
+			.addDropdown(dropdown => dropdown
+				.addOption('regex', 'Date regex pattern')
+				.addOption('tag', 'Tag')
+				.setValue(this.plugin.settings.useDateRegex ? 'regex' : 'tag')
+				.onChange(async (value) => {
+					this.plugin.settings.useDateRegex = value === 'regex';
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide relevant settings
+				}));
+
+		if (this.plugin.settings.useDateRegex) {
+			new Setting(containerEl)
+				.setName('Date regex pattern')
+				.setDesc('Regular expression to match daily note filenames (e.g., \\d{4}-\\d{2}-\\d{2} for YYYY-MM-DD)')
+				.addText(text => text
+					.setPlaceholder('\\d{4}-\\d{2}-\\d{2}')
+					.setValue(this.plugin.settings.dateRegexPattern)
+					.onChange(async (value) => {
+						this.plugin.settings.dateRegexPattern = value;
+						await this.plugin.saveSettings();
+					}));
+		} else {
+			new Setting(containerEl)
+				.setName('Daily note tag')
+				.setDesc('Tag used to identify daily notes (include the #)')
+				.addText(text => text
+					.setPlaceholder('#daily')
+					.setValue(this.plugin.settings.dailyNoteTag)
+					.onChange(async (value) => {
+						this.plugin.settings.dailyNoteTag = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Note date source')
+			.setDesc('Where each daily note\'s date is read from')
+			.addDropdown(dropdown => dropdown
+				.addOption('filename-regex', 'Filename (date regex)')
+				.addOption('filename-format', 'Filename (date format)')
+				.addOption('frontmatter', 'Frontmatter field')
+				.setValue(this.plugin.settings.dateSource)
+				.onChange(async (value) => {
+					this.plugin.settings.dateSource = value as DateSource;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.dateSource === 'frontmatter') {
+			new Setting(containerEl)
+				.setName('Frontmatter date field')
+				.setDesc('Property holding the note\'s date (YYYY-MM-DD or ISO 8601)')
+				.addText(text => text
+					.setPlaceholder('date')
+					.setValue(this.plugin.settings.frontmatterDateField)
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterDateField = value.trim() || 'date';
+						await this.plugin.saveSettings();
+					}));
+		} else {
+			new Setting(containerEl)
+				.setName('Date format')
+				.setDesc(this.plugin.settings.dateSource === 'filename-format'
+					? 'Moment.js format of the whole note name, e.g. "YYYY-MM-DD" or "dddd, MMMM Do YYYY". Leave empty to use the Daily Notes plugin\'s format.'
+					: 'Optional moment.js format for the regex match. Not needed when the regex has year/month/day capture groups, e.g. (?<year>\\d{4})-(?<month>\\d{2})-(?<day>\\d{2}).')
+				.addText(text => text
+					.setPlaceholder('YYYY-MM-DD')
+					.setValue(this.plugin.settings.dateFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.dateFormat = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		this.addDateSetting(containerEl, 'Analysis start date', 'Ignore notes before this date (YYYY-MM-DD, empty for no limit)', 'analysisStartDate');
+		this.addDateSetting(containerEl, 'Analysis end date', 'Ignore notes after this date (YYYY-MM-DD, empty for no limit)', 'analysisEndDate');
+
+		new Setting(containerEl)
+			.setName('Health log location')
+			.setDesc('Where health log entries are written in your notes')
+			.addDropdown(dropdown => dropdown
+				.addOption('heading', 'Under a heading')
+				.addOption('callout', 'In a callout')
+				.addOption('frontmatter', 'Frontmatter list')
+				.setValue(this.plugin.settings.healthLogSource)
+				.onChange(async (value) => {
+					this.plugin.settings.healthLogSource = value as HealthLogSource;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.healthLogSource === 'heading') {
+			new Setting(containerEl)
+				.setName('Health log headings')
+				.setDesc('Headings to look for, one per line (case-insensitive). Wrap a line in slashes for a regular expression, e.g. /^health( log)?$/. All matching sections in a note are merged; sub-headings like "### Breakfast" set the time of the items below them.')
+				.addTextArea(text => {
+					text
+						.setPlaceholder('Health log')
+						.setValue(this.plugin.settings.healthLogHeadings)
+						.onChange(async (value) => {
+							this.plugin.settings.healthLogHeadings = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				});
+		} else if (this.plugin.settings.healthLogSource === 'callout') {
+			new Setting(containerEl)
+				.setName('Callout types')
+				.setDesc('Comma-separated callout types to read, e.g. "health" for > [!health]')
+				.addText(text => text
+					.setPlaceholder('health')
+					.setValue(this.plugin.settings.healthLogCalloutTypes)
+					.onChange(async (value) => {
+						this.plugin.settings.healthLogCalloutTypes = value;
+						await this.plugin.saveSettings();
+					}));
+		} else {
+			new Setting(containerEl)
+				.setName('Frontmatter field')
+				.setDesc('Property holding a list of health log entries, one per item')
+				.addText(text => text
+					.setPlaceholder('health')
+					.setValue(this.plugin.settings.healthLogFrontmatterField)
+					.onChange(async (value) => {
+						this.plugin.settings.healthLogFrontmatterField = value.trim() || 'health';
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// LLM settings
+		containerEl.createEl('h3', { text: 'LLM Parsing Settings' });
+
+		new Setting(containerEl)
+			.setName('Use LLM for parsing')
+			.setDesc('Enable LLM-based parsing for better extraction of foods, supplements, and symptoms. When disabled (or when the server is unreachable), the built-in rule-based parser is used.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useLLM)
+				.onChange(async (value) => {
+					this.plugin.settings.useLLM = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide LLM settings
+				}));
+
+		if (this.plugin.settings.useLLM) {
+			new Setting(containerEl)
+				.setName('Provider')
+				.setDesc('API used to talk to your local inference server')
+				.addDropdown(dropdown => dropdown
+					.addOption('ollama-generate', 'Ollama (/api/generate)')
+					.addOption('ollama-chat', 'Ollama chat (/api/chat)')
+					.addOption('openai-compatible', 'OpenAI-compatible (/v1/chat/completions)')
+					.setValue(this.plugin.settings.llmProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.llmProvider = value as LLMProviderId;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh to show the provider's settings
+					}));
+
+			if (this.plugin.settings.llmProvider === 'openai-compatible') {
+				this.displayOpenAISettings(containerEl);
+			} else if (this.plugin.settings.llmProvider === 'ollama-chat') {
+				this.displayOllamaChatSettings(containerEl);
+			} else {
+				this.displayOllamaSettings(containerEl);
+			}
+
+			new Setting(containerEl)
+				.setName('Repair attempts')
+				.setDesc('How many times to ask the model to correct a reply that does not match the expected JSON shape before marking the note as failed')
+				.addText(text => text
+					.setPlaceholder('2')
+					.setValue(String(this.plugin.settings.llmMaxRetries))
+					.onChange(async (value) => {
+						const parsed = parseInt(value, 10);
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.llmMaxRetries = parsed;
+							await this.plugin.saveSettings();
+						}
+					}));
+
+			new Setting(containerEl)
+				.setName('Parallel requests')
+				.setDesc('How many notes to parse at once. Raise this if your server handles concurrent requests (e.g., OLLAMA_NUM_PARALLEL).')
+				.addText(text => text
+					.setPlaceholder('2')
+					.setValue(String(this.plugin.settings.parseConcurrency))
+					.onChange(async (value) => {
+						const parsed = parseInt(value, 10);
+						if (!isNaN(parsed) && parsed >= 1) {
+							this.plugin.settings.parseConcurrency = parsed;
+							await this.plugin.saveSettings();
+						}
+					}));
+
+			new Setting(containerEl)
+				.setName('Requests per minute')
+				.setDesc('Upper limit on how often parse requests start (0 = no limit)')
+				.addText(text => text
+					.setPlaceholder('0')
+					.setValue(String(this.plugin.settings.llmRequestsPerMinute))
+					.onChange(async (value) => {
+						const parsed = parseInt(value, 10);
+						if (!isNaN(parsed) && parsed >= 0) {
+							this.plugin.settings.llmRequestsPerMinute = parsed;
+							await this.plugin.saveSettings();
+						}
+					}));
+
+			new Setting(containerEl)
+				.setName('Test connection')
+				.setDesc('Check that the server responds and the model is available')
+				.addButton(button => button
+					.setButtonText('Test connection')
+					.onClick(async () => {
+						button.setDisabled(true);
+						try {
+							const message = await createLLMProvider(this.plugin.settings).testConnection();
+							new Notice(message);
+						} catch (error) {
+							new Notice(`Connection failed: ${error.message}`);
+						} finally {
+							button.setDisabled(false);
+						}
+					}));
+		}
+
+		// Association scoring
+		containerEl.createEl('h3', { text: 'Association Scoring' });
+
+		new Setting(containerEl)
+			.setName('Minimum support')
+			.setDesc('Only show associations where the trigger and symptom were logged together on at least this many days')
+			.addText(text => text
+				.setPlaceholder('2')
+				.setValue(String(this.plugin.settings.minSupport))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					if (!isNaN(parsed) && parsed >= 1) {
+						this.plugin.settings.minSupport = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum p-value')
+			.setDesc('Hide associations whose Fisher\'s exact test p-value is above this threshold (1 shows everything)')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(this.plugin.settings.maxPValue))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed > 0 && parsed <= 1) {
+						this.plugin.settings.maxPValue = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Lag window start (hours)')
+			.setDesc('Symptoms logged sooner than this after a trigger are not linked to it')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.lagWindowMinHours))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.lagWindowMinHours = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Lag window end (hours)')
+			.setDesc('Symptoms logged later than this after a trigger are not linked to it. Values above the time left in the day reach into the next daily note (e.g., 24 for next-day reactions).')
+			.addText(text => text
+				.setPlaceholder('24')
+				.setValue(String(this.plugin.settings.lagWindowMaxHours))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.lagWindowMaxHours = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
 
-		for (const assoc of this.associations) {
-			const assocDiv = contentEl.createDiv({ cls: 'health-association' });
+		new Setting(containerEl)
+			.setName('Short sleep (hours)')
+			.setDesc('Nights shorter than this are analyzed as a "short sleep" trigger')
+			.addText(text => text
+				.setPlaceholder('6')
+				.setValue(String(this.plugin.settings.shortSleepHours))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.shortSleepHours = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
 
-			const title = assocDiv.createEl('h4', {
-				text: `${assoc.trigger.name} (${assoc.trigger.type})`
-			});
-			title.style.marginBottom = '8px';
+		new Setting(containerEl)
+			.setName('High level threshold (0-10)')
+			.setDesc('Stress, anxiety and similar ratings at or above this are analyzed as "high stress" etc.; mood and energy at or below 10 minus this count as "low mood"/"low energy", as does sleep quality for "poor sleep". Words are mapped onto the scale (low 3, moderate 5, high 7).')
+			.addText(text => text
+				.setPlaceholder('7')
+				.setValue(String(this.plugin.settings.highLevelThreshold))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed > 5 && parsed <= 10) {
+						this.plugin.settings.highLevelThreshold = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
 
-			const subtitle = assocDiv.createEl('p', {
-				text: `→ ${assoc.symptom}`
-			});
-			subtitle.style.fontSize = '1em';
-			subtitle.style.fontWeight = 'bold';
-			subtitle.style.color = 'var(--text-accent)';
-			subtitle.style.marginBottom = '8px';
+		new Setting(containerEl)
+			.setName('Low hydration (litres)')
+			.setDesc('Days with logged fluids totalling less than this are analyzed as "low hydration". Glasses and cups count as 0.25 L.')
+			.addText(text => text
+				.setPlaceholder('1.5')
+				.setValue(String(this.plugin.settings.lowHydrationLiters))
+				.onChange(async (value) => {
+					const parsed = parseFloat(value);
+					if (!isNaN(parsed) && parsed > 0) {
+						this.plugin.settings.lowHydrationLiters = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
 
-			const stats = assocDiv.createEl('p', {
-				text: `Occurred ${assoc.totalCount} times (${assoc.percentage.toFixed(1)}% correlation)`
-			});
-			stats.style.fontSize = '0.9em';
-			stats.style.color = 'var(--text-muted)';
+		new Setting(containerEl)
+			.setName('Multivariable analysis')
+			.setDesc('Fit a penalized logistic regression per symptom over all frequent triggers, so a symptom on a day with several exposures is shared between them instead of credited to each in full. Reports an adjusted odds ratio next to the raw counts.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.multivariableAnalysis)
+				.onChange(async (value) => {
+					this.plugin.settings.multivariableAnalysis = value;
+					await this.plugin.saveSettings();
+				}));
 
-			// Show temporal details if available
-			const timeLags = assoc.occurrences
-				.map(occ => occ.timeLag)
-				.filter(lag => lag && lag.length > 0);
+		new Setting(containerEl)
+			.setName('Sort associations by')
+			.setDesc('Order used in the results')
+			.addDropdown(dropdown => dropdown
+				.addOption('pValue', 'Significance (p-value)')
+				.addOption('lift', 'Lift')
+				.addOption('relativeRisk', 'Relative risk')
+				.addOption('count', 'Co-occurrence count')
+				.addOption('severity', 'Severity-weighted lift')
+				.addOption('adjusted', 'Adjusted odds ratio (multivariable)')
+				.setValue(this.plugin.settings.associationSort)
+				.onChange(async (value) => {
+					this.plugin.settings.associationSort = value as AssociationSortKey;
+					await this.plugin.saveSettings();
+				}));
 
-			if (timeLags.length > 0) {
-				const lagText = assocDiv.createEl('p', {
-					text: `Timing: ${timeLags.slice(0, 3).join(', ')}${timeLags.length > 3 ? '...' : ''}`
-				});
-				lagText.style.fontSize = '0.85em';
-				lagText.style.color = 'var(--text-muted)';
-				lagText.style.fontStyle = 'italic';
-			}
+		// Normalization
+		containerEl.createEl('h3', { text: 'Name Normalization' });
 
-			// Show sample dates
-			const sampleDates = assoc.occurrences.slice(0, 3).map(occ => occ.date).join(', ');
-			const datesText = assocDiv.createEl('p', {
-				text: `Sample occurrences: ${sampleDates}${assoc.occurrences.length > 3 ? '...' : ''}`
+		new Setting(containerEl)
+			.setName('Aliases')
+			.setDesc('Map alternative names onto one canonical name, one "alias = canonical" per line (e.g., "ascorbic acid = vitamin c"). Names are compared after lower-casing and removing quantities.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('ascorbic acid = vitamin c')
+					.setValue(this.plugin.settings.aliasTable)
+					.onChange(async (value) => {
+						this.plugin.settings.aliasTable = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 6;
 			});
-			datesText.style.fontSize = '0.8em';
-			datesText.style.color = 'var(--text-faint)';
-
-			assocDiv.style.marginBottom = '20px';
-			assocDiv.style.padding = '12px';
-			assocDiv.style.border = '1px solid var(--background-modifier-border)';
-			assocDiv.style.borderRadius = '5px';
-		}
-
-		// Add close button
-		const buttonDiv = contentEl.createDiv();
-		buttonDiv.style.marginTop = '20px';
-		buttonDiv.style.textAlign = 'right';
 
-		const closeButton = buttonDiv.createEl('button', { text: 'Close' });
-		closeButton.addEventListener('click', () => this.close());
-	}
+		new Setting(containerEl)
+			.setName('Split compound foods')
+			.setDesc('Count "coffee with milk" or "bread and cheese" as separate ingredients')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.splitCompoundFoods)
+				.onChange(async (value) => {
+					this.plugin.settings.splitCompoundFoods = value;
+					await this.plugin.saveSettings();
+				}));
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
-	}
-}
+		new Setting(containerEl)
+			.setName('Editor autocomplete')
+			.setDesc('While typing in the Health log section of a daily note, suggest items you have logged before, ranked by how often and how recently, with their usual dose and time. Symptoms are suggested after a "—" separator.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.editorSuggestions)
+				.onChange(async (value) => {
+					this.plugin.settings.editorSuggestions = value;
+					await this.plugin.saveSettings();
+				}));
 
-class HealthLogSettingTab extends PluginSettingTab {
-	plugin: HealthLogAnalyzerPlugin;
+		// Export
+		containerEl.createEl('h3', { text: 'Export' });
 
-	constructor(app: App, plugin: HealthLogAnalyzerPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
-	}
+		new Setting(containerEl)
+			.setName('Export folder')
+			.setDesc('Vault folder for exported reports. Existing exports are overwritten in place on each run.')
+			.addText(text => text
+				.setPlaceholder('Health log analysis')
+				.setValue(this.plugin.settings.exportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.exportFolder = value;
+					await this.plugin.saveSettings();
+				}));
 
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
+		// Periodic summaries
+		containerEl.createEl('h3', { text: 'Periodic Summaries' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Run "Write weekly health summary" or "Write monthly health summary" to write a summary into the weekly or monthly note. When the Periodic Notes plugin is set up for weekly or monthly notes, its name format, folder and template are used instead of the ones below.'
+		});
 
-		containerEl.createEl('h2', { text: 'Health Log Analyzer Settings' });
+		new Setting(containerEl)
+			.setName('Weekly note format')
+			.setDesc('Moment.js format of weekly note names.')
+			.addText(text => text
+				.setPlaceholder('gggg-[W]ww')
+				.setValue(this.plugin.settings.weeklyNoteFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.weeklyNoteFormat = value;
+					await this.plugin.saveSettings();
+				}));
 
 		new Setting(containerEl)
-			.setName('Detection method')
-			.setDesc('How to identify daily notes')
-			.addDropdown(dropdown => dropdown
-				.addOption('regex', 'Date regex pattern')
-				.addOption('tag', 'Tag')
-				.setValue(this.plugin.settings.useDateRegex ? 'regex' : 'tag')
+			.setName('Monthly note format')
+			.setDesc('Moment.js format of monthly note names.')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM')
+				.setValue(this.plugin.settings.monthlyNoteFormat)
 				.onChange(async (value) => {
-					this.plugin.settings.useDateRegex = value === 'regex';
+					this.plugin.settings.monthlyNoteFormat = value;
 					await this.plugin.saveSettings();
-					this.display(); // Refresh to show/hide relevant settings
 				}));
 
-		if (this.plugin.settings.useDateRegex) {
-			new Setting(containerEl)
-				.setName('Date regex pattern')
-				.setDesc('Regular expression to match daily note filenames (e.g., \\d{4}-\\d{2}-\\d{2} for YYYY-MM-DD)')
-				.addText(text => text
-					.setPlaceholder('\\d{4}-\\d{2}-\\d{2}')
-					.setValue(this.plugin.settings.dateRegexPattern)
-					.onChange(async (value) => {
-						this.plugin.settings.dateRegexPattern = value;
-						await this.plugin.saveSettings();
-					}));
-		} else {
-			new Setting(containerEl)
-				.setName('Daily note tag')
-				.setDesc('Tag used to identify daily notes (include the #)')
-				.addText(text => text
-					.setPlaceholder('#daily')
-					.setValue(this.plugin.settings.dailyNoteTag)
-					.onChange(async (value) => {
-						this.plugin.settings.dailyNoteTag = value;
-						await this.plugin.saveSettings();
-					}));
-		}
+		new Setting(containerEl)
+			.setName('Periodic notes folder')
+			.setDesc('Folder for new weekly and monthly notes. Leave empty for the vault root.')
+			.addText(text => text
+				.setValue(this.plugin.settings.periodicNotesFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.periodicNotesFolder = value;
+					await this.plugin.saveSettings();
+				}));
 
 		new Setting(containerEl)
-			.setName('Health log heading')
-			.setDesc('The heading to look for in daily notes (case-insensitive)')
+			.setName('Summary heading')
+			.setDesc('Heading the summary is written under. Its section is replaced on every run; the rest of the note is left alone.')
 			.addText(text => text
-				.setPlaceholder('Health log')
-				.setValue(this.plugin.settings.healthLogHeading)
+				.setPlaceholder('Health summary')
+				.setValue(this.plugin.settings.summaryHeading)
 				.onChange(async (value) => {
-					this.plugin.settings.healthLogHeading = value;
+					this.plugin.settings.summaryHeading = value;
 					await this.plugin.saveSettings();
 				}));
 
-		// Ollama settings
-		containerEl.createEl('h3', { text: 'LLM Parsing Settings' });
+		new Setting(containerEl)
+			.setName('Summary template')
+			.setDesc('Optional note to lay out the summary, using {{period}}, {{previousPeriod}}, {{loggedDays}}, {{missingDays}}, {{symptoms}}, {{associations}} and {{topTriggers}}. Leave empty for the default layout.')
+			.addText(text => text
+				.setPlaceholder('Templates/Health summary')
+				.setValue(this.plugin.settings.summaryTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.summaryTemplate = value;
+					await this.plugin.saveSettings();
+				}));
 
 		new Setting(containerEl)
-			.setName('Use Ollama for parsing')
-			.setDesc('Enable LLM-based parsing for better extraction of foods, supplements, and symptoms')
+			.setName('Weekly summary on startup')
+			.setDesc('Summarize the previous week once, the first time Obsidian starts after it ends.')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.useOllama)
+				.setValue(this.plugin.settings.scheduleWeeklySummary)
 				.onChange(async (value) => {
-					this.plugin.settings.useOllama = value;
+					this.plugin.settings.scheduleWeeklySummary = value;
 					await this.plugin.saveSettings();
-					this.display(); // Refresh to show/hide Ollama settings
 				}));
 
-		if (this.plugin.settings.useOllama) {
-			new Setting(containerEl)
-				.setName('Ollama host')
-				.setDesc('Ollama API endpoint (default: http://localhost:11434)')
-				.addText(text => text
-					.setPlaceholder('http://localhost:11434')
-					.setValue(this.plugin.settings.ollamaHost)
-					.onChange(async (value) => {
-						this.plugin.settings.ollamaHost = value;
-						await this.plugin.saveSettings();
-					}));
+		new Setting(containerEl)
+			.setName('Monthly summary on startup')
+			.setDesc('Summarize the previous month once, the first time Obsidian starts after it ends.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.scheduleMonthlySummary)
+				.onChange(async (value) => {
+					this.plugin.settings.scheduleMonthlySummary = value;
+					await this.plugin.saveSettings();
+				}));
 
-			new Setting(containerEl)
-				.setName('Ollama model')
-				.setDesc('Model to use for parsing (e.g., llama3.2, mistral, qwen2.5)')
-				.addText(text => text
-					.setPlaceholder('llama3.2')
-					.setValue(this.plugin.settings.ollamaModel)
-					.onChange(async (value) => {
-						this.plugin.settings.ollamaModel = value;
-						await this.plugin.saveSettings();
-					}));
+		// Elimination experiments
+		containerEl.createEl('h3', { text: 'Elimination Experiments' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Compare symptoms before, during and after cutting out a trigger. Run "Write elimination experiment report" to write the comparison into the export folder.'
+		});
 
-			const ollamaNote = containerEl.createDiv();
-			ollamaNote.style.fontSize = '0.9em';
-			ollamaNote.style.color = 'var(--text-muted)';
-			ollamaNote.style.marginTop = '10px';
-			ollamaNote.style.marginBottom = '20px';
-			ollamaNote.innerHTML = `
-				<p><strong>Note:</strong> Make sure Ollama is running with the selected model:</p>
-				<code style="background: var(--background-secondary); padding: 2px 6px; border-radius: 3px;">ollama run ${this.plugin.settings.ollamaModel}</code>
-			`;
+		for (const experiment of this.plugin.settings.experiments) {
+			this.displayExperiment(containerEl, experiment);
 		}
 
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add experiment')
+				.onClick(async () => {
+					const today = moment();
+					this.plugin.settings.experiments.push({
+						id: Date.now().toString(36),
+						name: 'New experiment',
+						triggers: '',
+						symptoms: '',
+						baselineStart: today.clone().subtract(14, 'days').format('YYYY-MM-DD'),
+						baselineEnd: today.clone().subtract(1, 'days').format('YYYY-MM-DD'),
+						eliminationStart: today.format('YYYY-MM-DD'),
+						eliminationEnd: today.clone().add(20, 'days').format('YYYY-MM-DD'),
+						reintroductionStart: '',
+						reintroductionEnd: ''
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
 		// Cache management
 		containerEl.createEl('h3', { text: 'Cache Management' });
 
+		new Setting(containerEl)
+			.setName('Background indexing')
+			.setDesc('Keep parsed entries up to date as daily notes change, so running an analysis only aggregates. Progress is shown in the status bar.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.backgroundIndexing)
+				.onChange(async (value) => {
+					this.plugin.settings.backgroundIndexing = value;
+					await this.plugin.saveSettings();
+					if (value) {
+						this.plugin.rebuildIndex();
+					} else {
+						this.plugin.indexAbort?.abort();
+						this.plugin.indexReady = false;
+						this.plugin.updateStatusBar();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Checkpoint interval')
+			.setDesc('Save the cache after this many newly parsed notes, so long runs can resume after a reload')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.cacheCheckpointInterval))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					if (!isNaN(parsed) && parsed >= 1) {
+						this.plugin.settings.cacheCheckpointInterval = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
 		new Setting(containerEl)
 			.setName('Clear cache')
-			.setDesc('Clear cached parse results. Use this if you want to force re-parsing all files.')
+			.setDesc('Clear cached parse results. Use this if you want to force re-parsing all files. Corrections made in the review view are kept.')
 			.addButton(button => button
 				.setButtonText('Clear Cache')
 				.onClick(async () => {
-					this.plugin.cache = { version: '2.0.0', entries: {} };
+					this.plugin.cache = { version: CACHE_VERSION, entries: {} };
 					await this.plugin.saveCache();
 					new Notice('Cache cleared! Next analysis will re-parse all files.');
 				}));
 
 		const cacheSize = Object.keys(this.plugin.cache.entries).length;
+		const failedCount = Object.values(this.plugin.cache.entries).filter(entry => entry.status === 'failed').length;
 		const cacheInfo = containerEl.createDiv();
 		cacheInfo.style.fontSize = '0.9em';
 		cacheInfo.style.color = 'var(--text-muted)';
 		cacheInfo.style.marginTop = '5px';
-		cacheInfo.textContent = `Currently cached: ${cacheSize} files`;
+		cacheInfo.textContent = `Currently cached: ${cacheSize} files`
+			+ (failedCount > 0 ? ` (${failedCount} failed LLM parses will be retried on the next run)` : '');
 
 		// Add usage instructions
 		containerEl.createEl('h3', { text: 'Usage Instructions' });
@@ -781,4 +6312,212 @@ Symptoms:
 			text: 'The plugin supports multiple formats and will automatically extract associations between what you consume/do and how you feel.'
 		});
 	}
+
+	displayOllamaSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Ollama host')
+			.setDesc('Ollama API endpoint (default: http://localhost:11434)')
+			.addText(text => text
+				.setPlaceholder('http://localhost:11434')
+				.setValue(this.plugin.settings.ollamaHost)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaHost = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Ollama model')
+			.setDesc('Model to use for parsing (e.g., llama3.2, mistral, qwen2.5)')
+			.addText(text => text
+				.setPlaceholder('llama3.2')
+				.setValue(this.plugin.settings.ollamaModel)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaModel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addTimeoutSetting(containerEl, this.plugin.settings.ollamaTimeoutSeconds, value => {
+			this.plugin.settings.ollamaTimeoutSeconds = value;
+		});
+		this.addOllamaNote(containerEl, this.plugin.settings.ollamaModel);
+	}
+
+	displayOllamaChatSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Ollama host')
+			.setDesc('Ollama API endpoint (default: http://localhost:11434)')
+			.addText(text => text
+				.setPlaceholder('http://localhost:11434')
+				.setValue(this.plugin.settings.ollamaChatHost)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaChatHost = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Ollama model')
+			.setDesc('Chat model to use for parsing (e.g., llama3.2, qwen2.5)')
+			.addText(text => text
+				.setPlaceholder('llama3.2')
+				.setValue(this.plugin.settings.ollamaChatModel)
+				.onChange(async (value) => {
+					this.plugin.settings.ollamaChatModel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addTimeoutSetting(containerEl, this.plugin.settings.ollamaChatTimeoutSeconds, value => {
+			this.plugin.settings.ollamaChatTimeoutSeconds = value;
+		});
+		this.addOllamaNote(containerEl, this.plugin.settings.ollamaChatModel);
+	}
+
+	displayOpenAISettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Base URL')
+			.setDesc('Server root or /v1 endpoint, e.g. http://localhost:8080/v1 (llama.cpp), http://localhost:1234/v1 (LM Studio), http://localhost:8000/v1 (vLLM)')
+			.addText(text => text
+				.setPlaceholder('http://localhost:8080/v1')
+				.setValue(this.plugin.settings.openAIBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.openAIBaseUrl = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Model name sent with each request (some servers ignore it)')
+			.addText(text => text
+				.setValue(this.plugin.settings.openAIModel)
+				.onChange(async (value) => {
+					this.plugin.settings.openAIModel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('API key')
+			.setDesc('Optional; sent as a Bearer token')
+			.addText(text => {
+				text
+					.setValue(this.plugin.settings.openAIApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.openAIApiKey = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'password';
+			});
+
+		this.addTimeoutSetting(containerEl, this.plugin.settings.openAITimeoutSeconds, value => {
+			this.plugin.settings.openAITimeoutSeconds = value;
+		});
+	}
+
+	addDateSetting(containerEl: HTMLElement, name: string, desc: string, key: 'analysisStartDate' | 'analysisEndDate') {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD')
+				.setValue(this.plugin.settings[key])
+				.onChange(async (value) => {
+					const trimmed = value.trim();
+					if (trimmed === '' || moment(trimmed, 'YYYY-MM-DD', true).isValid()) {
+						this.plugin.settings[key] = trimmed;
+						await this.plugin.saveSettings();
+					}
+				}));
+	}
+
+	displayExperiment(containerEl: HTMLElement, experiment: EliminationExperiment) {
+		const section = containerEl.createDiv({ cls: 'health-log-experiment' });
+
+		new Setting(section)
+			.setName('Experiment name')
+			.addText(text => text
+				.setValue(experiment.name)
+				.onChange(async (value) => {
+					experiment.name = value;
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete experiment')
+				.onClick(async () => {
+					this.plugin.settings.experiments = this.plugin.settings.experiments.filter(e => e.id !== experiment.id);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(section)
+			.setName('Triggers')
+			.setDesc('Comma-separated names treated as one group, e.g. "milk, cheese, yogurt, butter". Names match whole words of logged items.')
+			.addText(text => text
+				.setPlaceholder('milk, cheese, yogurt')
+				.setValue(experiment.triggers)
+				.onChange(async (value) => {
+					experiment.triggers = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(section)
+			.setName('Symptoms')
+			.setDesc('Comma-separated symptoms to compare; leave empty to compare every logged symptom')
+			.addText(text => text
+				.setPlaceholder('bloating, stomach pain')
+				.setValue(experiment.symptoms)
+				.onChange(async (value) => {
+					experiment.symptoms = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const periods: Array<[string, string, 'baselineStart' | 'eliminationStart' | 'reintroductionStart', 'baselineEnd' | 'eliminationEnd' | 'reintroductionEnd']> = [
+			['Baseline', 'Required: normal diet, before the elimination', 'baselineStart', 'baselineEnd'],
+			['Elimination', 'Required: trigger group removed', 'eliminationStart', 'eliminationEnd'],
+			['Reintroduction', 'Optional: trigger group added back (leave empty to skip)', 'reintroductionStart', 'reintroductionEnd']
+		];
+		for (const [name, desc, startKey, endKey] of periods) {
+			const setting = new Setting(section).setName(`${name} period`).setDesc(desc);
+			for (const key of [startKey, endKey]) {
+				setting.addText(text => text
+					.setPlaceholder('YYYY-MM-DD')
+					.setValue(experiment[key])
+					.onChange(async (value) => {
+						const trimmed = value.trim();
+						// Only the reintroduction period may be left empty
+						const optional = key === 'reintroductionStart' || key === 'reintroductionEnd';
+						if ((trimmed === '' && optional) || moment(trimmed, 'YYYY-MM-DD', true).isValid()) {
+							experiment[key] = trimmed;
+							await this.plugin.saveSettings();
+						}
+					}));
+			}
+		}
+	}
+
+	addTimeoutSetting(containerEl: HTMLElement, current: number, update: (value: number) => void) {
+		new Setting(containerEl)
+			.setName('Request timeout (seconds)')
+			.setDesc('Give up on a single parse request after this long')
+			.addText(text => text
+				.setPlaceholder('120')
+				.setValue(String(current))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					if (!isNaN(parsed) && parsed > 0) {
+						update(parsed);
+						await this.plugin.saveSettings();
+					}
+				}));
+	}
+
+	addOllamaNote(containerEl: HTMLElement, model: string) {
+		const ollamaNote = containerEl.createDiv();
+		ollamaNote.style.fontSize = '0.9em';
+		ollamaNote.style.color = 'var(--text-muted)';
+		ollamaNote.style.marginTop = '10px';
+		ollamaNote.style.marginBottom = '20px';
+		ollamaNote.innerHTML = `
+			<p><strong>Note:</strong> Make sure Ollama is running with the selected model:</p>
+			<code style="background: var(--background-secondary); padding: 2px 6px; border-radius: 3px;">ollama run ${model}</code>
+		`;
+	}
 }